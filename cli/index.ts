@@ -0,0 +1,172 @@
+/**
+ * Headless prompt generation for scripts and cron jobs:
+ *
+ *   npm run build:cli
+ *   node dist-cli/index.js --preset HWS14 --batch 200 --seed 42 --out prompts.jsonl
+ *
+ * Payloads, messages, retries and exports come from the same modules as the editor,
+ * so a run here matches "Send to GPT" with the same preset and seed.
+ */
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { findPreset } from "../server/presetApi";
+import { parsePreset } from "../src/services/presetSchema";
+import type { PresetData } from "../src/services/presetService";
+import { buildLLMMessages } from "../src/services/promptMessages";
+import { callProvider } from "../src/services/llmClient";
+import { getProvider, TokenUsage } from "../src/services/llmProviders";
+import { createScheduler } from "../src/services/scheduler";
+import { BatchItem, createBatchItems, runBatch, summarizeBatch } from "../src/services/batchRunner";
+import { buildPayloads, Payload } from "../src/utils/payloadBuilder";
+import { renderTemplate } from "../src/utils/templateRenderer";
+import { buildExportRows, exportPrompts } from "../src/utils/exporters";
+import { DEFAULT_OUTPUT_TOKENS, estimateMessageTokens, sumUsage } from "../src/utils/costEstimate";
+import { checkOutput, generateChecked } from "../src/utils/outputConstraints";
+import { averageFidelity, checkFidelity } from "../src/utils/fidelity";
+import { normalizeOutputFields, OUTPUT_SCHEMA_NAME, outputJsonSchema } from "../src/utils/structuredOutput";
+import { CliUsageError, parseCliArgs, resolveRunSettings, USAGE } from "./options";
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+// A preset name in the presets directory, or a path to a preset file
+async function loadPreset(preset: string, presetsDir: string): Promise<{ name: string; data: PresetData }> {
+  let file = preset;
+  if (!preset.endsWith(".json") && !preset.includes("/") && !preset.includes(path.sep)) {
+    const existing = await findPreset(presetsDir, preset);
+    if (!existing) throw new Error(`Preset "${preset}" not found in ${presetsDir}`);
+    file = path.join(presetsDir, `${existing}.json`);
+  }
+  const name = path.basename(file, ".json");
+  return { name, data: parsePreset(JSON.parse(await fs.readFile(file, "utf8")), name) };
+}
+
+async function main(argv: string[]) {
+  const options = parseCliArgs(argv);
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const preset = await loadPreset(options.preset, options.presetsDir);
+  const settings = resolveRunSettings(options, preset.data, process.env);
+  const sections = preset.data.sections || [];
+  const payloads: Payload[] = buildPayloads(sections, { seedBase: settings.seed, batchSize: settings.batch, rules: preset.data.rules });
+
+  if (options.dryRun) {
+    console.log(JSON.stringify(payloads, null, 2));
+    return 0;
+  }
+
+  let items: BatchItem[];
+  if (settings.mode === "local") {
+    if (!preset.data.outputTemplate?.trim()) throw new Error(`Preset "${preset.name}" has no output template for --mode local`);
+    items = payloads.map((payload, index): BatchItem => {
+      const text = renderTemplate(preset.data.outputTemplate!, payload);
+      const violations = checkOutput(text, preset.data.outputConstraints, payload);
+      return { index, text, status: "ok", attempts: 1, ...(violations.length ? { violations } : {}) };
+    });
+  } else {
+    const provider = getProvider(settings.provider);
+    if (provider.requiresApiKey && !settings.apiKey) {
+      throw new Error(`No API key for ${provider.label}: pass --api-key or set PROMPT_ARCHITECT_API_KEY`);
+    }
+    log(`Generating ${payloads.length} prompts from ${preset.name} with ${provider.label} ${settings.model}`);
+
+    // Ctrl+C stops sending; prompts already generated are still written
+    const controller = new AbortController();
+    process.once("SIGINT", () => {
+      log("Cancelling…");
+      controller.abort();
+    });
+
+    const outputFields = normalizeOutputFields(preset.data.outputFields);
+    const responseSchema = outputFields.length ? { name: OUTPUT_SCHEMA_NAME, schema: outputJsonSchema(outputFields) } : undefined;
+    const queue = payloads.map((payload) => buildLLMMessages(payload, preset.data.instructions, sections, outputFields));
+    const providerSettings = { provider: settings.provider, baseUrl: settings.baseUrl, apiKey: settings.apiKey };
+    let loggedWait = 0;
+    const scheduler = createScheduler({
+      concurrency: settings.concurrency,
+      requestsPerMinute: settings.requestsPerMinute,
+      tokensPerMinute: settings.tokensPerMinute,
+      onChange: ({ concurrency, waitingUntil }) => {
+        if (!waitingUntil || waitingUntil === loggedWait) return;
+        loggedWait = waitingUntil;
+        log(`Rate limited: waiting until ${new Date(waitingUntil).toLocaleTimeString()} (concurrency ${concurrency})`);
+      },
+    });
+    items = await runBatch(
+      createBatchItems(queue.length),
+      async (index, { onRetry, onUsage, onChecked, onFields, signal }) => {
+        // Usage is summed over corrective follow-ups
+        let usage: TokenUsage | undefined;
+        const checked = await generateChecked(
+          queue[index],
+          preset.data.outputConstraints,
+          payloads[index],
+          (messages) =>
+            callProvider(messages, settings.model, providerSettings, {
+              maxRetries: settings.retries,
+              responseSchema,
+              onRetry,
+              onUsage: (reported) => {
+                usage = sumUsage([usage, reported]);
+                onUsage(usage);
+              },
+              signal,
+              scheduler,
+              estimatedTokens: estimateMessageTokens(messages) + DEFAULT_OUTPUT_TOKENS,
+            }),
+          outputFields
+        );
+        if (checked.fields) onFields(checked.fields);
+        onChecked(checked.violations, checked.repairs);
+        return checked.text;
+      },
+      {
+        concurrency: settings.concurrency,
+        scheduler,
+        signal: controller.signal,
+        onUpdate: (item) => {
+          if (item.status === "retrying") log(`#${item.index + 1} retrying (attempt ${item.attempts}): ${item.error}`);
+          if (item.status === "failed") log(`#${item.index + 1} failed: ${item.error}`);
+          if (item.status === "ok" && item.violations) {
+            log(`#${item.index + 1} breaks output constraints${item.repairs ? ` after ${item.repairs} repair(s)` : ""}: ${item.violations.map((v) => v.message).join(" ")}`);
+          }
+        },
+      }
+    );
+  }
+
+  const rows = buildExportRows(items, payloads, []);
+  const output = exportPrompts(settings.format, rows, {
+    preset: preset.name,
+    model: settings.mode === "local" ? null : settings.model,
+    seed: settings.seed,
+    fields: sections.filter((section) => !section.isHidden).map((section) => section.title),
+    outputFields: settings.mode === "local" ? undefined : normalizeOutputFields(preset.data.outputFields).map((field) => field.name),
+  });
+  if (options.out) {
+    await fs.writeFile(options.out, output);
+  } else {
+    process.stdout.write(output.endsWith("\n") ? output : `${output}\n`);
+  }
+
+  const summary = summarizeBatch(items);
+  log(`${summary.ok}/${summary.total} prompts written${options.out ? ` to ${options.out}` : ""}` +
+    (summary.fail ? `, ${summary.fail} failed` : "") + (summary.cancelled ? `, ${summary.cancelled} cancelled` : ""));
+  const fidelity = averageFidelity(items.map((item) => (item.status === "ok" ? checkFidelity(item.text, payloads[item.index], sections) : null)));
+  if (fidelity !== null) log(`Payload fidelity: ${fidelity}/100 average`);
+  if (summary.violations) log(`${summary.violations} prompt(s) break the preset's output constraints`);
+  if (summary.usage.promptTokens + summary.usage.completionTokens > 0) {
+    log(`Tokens: ${summary.usage.promptTokens} input, ${summary.usage.completionTokens} output`);
+  }
+  return summary.ok === summary.total ? 0 : 1;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (error) => {
+    log(error instanceof CliUsageError ? `${error.message}\n\n${USAGE}` : `Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(2);
+  }
+);
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { CliUsageError, parseCliArgs, resolveRunSettings } from "./options";
+import type { PresetData } from "../src/services/presetService";
+
+const preset: PresetData = {
+  instructions: "Write one paragraph.",
+  sections: [],
+  defaults: { model: "llama3.1", seed: 7, batch: 10, concurrency: 2, provider: "openai-compatible", baseUrl: "http://localhost:1234/v1" },
+};
+
+describe("CLI options", () => {
+  it("parses spaced and inline values", () => {
+    const options = parseCliArgs(["--preset", "HWS14", "--batch=200", "--seed", "-1", "--out", "out.jsonl", "--dry-run", "--rpm", "500"]);
+    expect(options).toMatchObject({ preset: "HWS14", batch: 200, seed: -1, out: "out.jsonl", dryRun: true, retries: 3, requestsPerMinute: 500 });
+  });
+
+  it("rejects unknown flags, missing values and bad numbers", () => {
+    expect(() => parseCliArgs(["--preset", "x", "--bogus"])).toThrow(CliUsageError);
+    expect(() => parseCliArgs(["--preset"])).toThrow(/needs a value/);
+    expect(() => parseCliArgs(["--preset", "x", "--batch", "0"])).toThrow(/--batch expects a whole number ≥ 1/);
+    expect(() => parseCliArgs(["--preset", "x", "--provider", "nope"])).toThrow(/--provider expects one of/);
+    expect(() => parseCliArgs(["--batch", "3"])).toThrow(/--preset is required/);
+    expect(parseCliArgs(["--help"]).help).toBe(true);
+  });
+
+  it("falls back to the preset defaults and the environment", () => {
+    const settings = resolveRunSettings(parseCliArgs(["--preset", "x"]), preset, {});
+    expect(settings).toEqual({
+      batch: 10,
+      seed: 7,
+      model: "llama3.1",
+      provider: "openai-compatible",
+      baseUrl: "http://localhost:1234/v1",
+      apiKey: undefined,
+      concurrency: 2,
+      retries: 3,
+      requestsPerMinute: 0,
+      tokensPerMinute: 0,
+      mode: "llm",
+      format: "txt",
+    });
+
+    const overridden = resolveRunSettings(
+      parseCliArgs(["--preset", "x", "--provider", "anthropic", "--model", "claude-3-5-haiku-latest", "--out", "a.CSV"]),
+      preset,
+      { ANTHROPIC_API_KEY: "sk-ant" }
+    );
+    // A different provider does not inherit the preset's base URL
+    expect(overridden).toMatchObject({ provider: "anthropic", baseUrl: undefined, apiKey: "sk-ant", format: "csv" });
+    expect(resolveRunSettings(parseCliArgs(["--preset", "x", "--out", "b.json"]), preset).format).toBe("comfyui");
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Command-line options for the headless generator (`cli/index.ts`).
+ * Flags override the preset's saved defaults.
+ */
+import type { PresetData, RunMode } from "../src/services/presetService";
+import { PROVIDERS, ProviderId } from "../src/services/llmProviders";
+import { EXPORT_FORMATS, ExportFormat } from "../src/utils/exporters";
+
+const PROVIDER_IDS = Object.keys(PROVIDERS) as ProviderId[];
+
+export const USAGE = `Usage: prompt-architect --preset <name|file.json> [options]
+
+  --preset <name|file>   Preset name in --presets-dir, or a path to a preset JSON file
+  --presets-dir <dir>    Directory of named presets (default: src/presets)
+  --batch <n>            Number of prompts (default: preset batch)
+  --seed <n>             Seed; -1 draws at random (default: preset seed)
+  --model <name>         Model (default: preset model)
+  --provider <id>        ${PROVIDER_IDS.join(" | ")} (default: preset provider)
+  --base-url <url>       Provider base URL (e.g. a local Ollama server)
+  --api-key <key>        API key (default: $PROMPT_ARCHITECT_API_KEY, $OPENAI_API_KEY or $ANTHROPIC_API_KEY)
+  --concurrency <n>      Requests in flight (default: preset concurrency)
+  --retries <n>          Attempts per prompt on 429/5xx and timeouts (default: 3)
+  --rpm <n>              Stay under this many requests per minute (default: no limit)
+  --tpm <n>              Stay under this many estimated tokens per minute (default: no limit)
+  --mode <llm|local>     Call the LLM, or fill the preset's output template (default: preset mode)
+  --out <file>           Output file (default: stdout)
+  --format <format>      ${EXPORT_FORMATS.map((f) => f.id).join(" | ")} (default: from --out extension, else txt)
+  --dry-run              Print the payloads without generating prompts
+  -h, --help             Show this help`;
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliUsageError";
+  }
+}
+
+export interface CliOptions {
+  preset: string;
+  presetsDir: string;
+  batch?: number;
+  seed?: number;
+  model?: string;
+  provider?: ProviderId;
+  baseUrl?: string;
+  apiKey?: string;
+  concurrency?: number;
+  retries: number;
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  mode?: RunMode;
+  out?: string;
+  format?: ExportFormat;
+  dryRun: boolean;
+  help: boolean;
+}
+
+// Settings for one run: CLI flags over preset defaults
+export interface RunSettings {
+  batch: number;
+  seed: number;
+  model: string;
+  provider: ProviderId;
+  baseUrl?: string;
+  apiKey?: string;
+  concurrency: number;
+  retries: number;
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  mode: RunMode;
+  format: ExportFormat;
+}
+
+const VALUE_FLAGS = [
+  "preset", "presets-dir", "batch", "seed", "model", "provider", "base-url",
+  "api-key", "concurrency", "retries", "rpm", "tpm", "mode", "out", "format",
+];
+
+function integer(flag: string, value: string, min: number): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min) throw new CliUsageError(`--${flag} expects a whole number ≥ ${min}, got "${value}"`);
+  return n;
+}
+
+function oneOf<T extends string>(flag: string, value: string, allowed: readonly T[]): T {
+  if (!allowed.includes(value as T)) throw new CliUsageError(`--${flag} expects one of ${allowed.join(", ")}, got "${value}"`);
+  return value as T;
+}
+
+/**
+ * Parse `process.argv.slice(2)`. Accepts `--flag value` and `--flag=value`.
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const values: Record<string, string> = {};
+  const options: CliOptions = { preset: "", presetsDir: "src/presets", retries: 3, requestsPerMinute: 0, tokensPerMinute: 0, dryRun: false, help: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "-h" || arg === "--help") {
+      options.help = true;
+      continue;
+    }
+    if (arg === "--dry-run") {
+      options.dryRun = true;
+      continue;
+    }
+    const [, flag, inline] = arg.match(/^--([a-z-]+)(?:=(.*))?$/) || [];
+    if (!flag || !VALUE_FLAGS.includes(flag)) throw new CliUsageError(`Unknown option: ${arg}`);
+    const value = inline ?? argv[++i];
+    if (value === undefined) throw new CliUsageError(`--${flag} needs a value`);
+    values[flag] = value;
+  }
+
+  if (options.help) return options;
+  if (!values.preset) throw new CliUsageError("--preset is required");
+
+  options.preset = values.preset;
+  if (values["presets-dir"]) options.presetsDir = values["presets-dir"];
+  if (values.batch !== undefined) options.batch = integer("batch", values.batch, 1);
+  if (values.seed !== undefined) options.seed = integer("seed", values.seed, -1);
+  if (values.model) options.model = values.model;
+  if (values.provider) options.provider = oneOf("provider", values.provider, PROVIDER_IDS);
+  if (values["base-url"]) options.baseUrl = values["base-url"];
+  if (values["api-key"]) options.apiKey = values["api-key"];
+  if (values.concurrency !== undefined) options.concurrency = integer("concurrency", values.concurrency, 1);
+  if (values.retries !== undefined) options.retries = integer("retries", values.retries, 1);
+  if (values.rpm !== undefined) options.requestsPerMinute = integer("rpm", values.rpm, 0);
+  if (values.tpm !== undefined) options.tokensPerMinute = integer("tpm", values.tpm, 0);
+  if (values.mode) options.mode = oneOf("mode", values.mode, ["llm", "local"] as const);
+  if (values.out) options.out = values.out;
+  if (values.format) options.format = oneOf("format", values.format, EXPORT_FORMATS.map((f) => f.id));
+  return options;
+}
+
+// Output format named by the file extension (.jsonl, .csv, .json → ComfyUI), else plain text
+function formatForFile(file?: string): ExportFormat {
+  const extension = file?.split(".").pop()?.toLowerCase();
+  if (extension === "json") return "comfyui";
+  return EXPORT_FORMATS.find((f) => f.id === extension)?.id ?? "txt";
+}
+
+/**
+ * Combine flags with the preset's defaults. The API key falls back to the environment.
+ */
+export function resolveRunSettings(options: CliOptions, preset: PresetData, env: Record<string, string | undefined> = {}): RunSettings {
+  const provider = options.provider ?? preset.defaults.provider ?? "openai";
+  const providerKey = provider === "anthropic" ? env.ANTHROPIC_API_KEY : provider === "openai" ? env.OPENAI_API_KEY : undefined;
+  return {
+    batch: options.batch ?? preset.defaults.batch,
+    seed: options.seed ?? preset.defaults.seed,
+    model: options.model ?? preset.defaults.model,
+    provider,
+    baseUrl: options.baseUrl ?? (options.provider ? undefined : preset.defaults.baseUrl),
+    apiKey: options.apiKey ?? env.PROMPT_ARCHITECT_API_KEY ?? providerKey,
+    concurrency: options.concurrency ?? preset.defaults.concurrency,
+    retries: options.retries,
+    requestsPerMinute: options.requestsPerMinute,
+    tokensPerMinute: options.tokensPerMinute,
+    mode: options.mode ?? preset.defaults.runMode ?? "llm",
+    format: options.format ?? formatForFile(options.out),
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Standalone server for the built app: serves `dist/` and the preset API.
+ *
+ *   npm run build && npm run build:server
+ *   PORT=8080 PRESETS_DIR=./presets npm run serve
+ *
+ * The presets directory is seeded with the bundled presets the first time it is created.
+ */
+import { createServer } from "node:http";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { createPresetApi, savePreset } from "./presetApi";
+
+const PORT = Number(process.env.PORT) || 8080;
+const DIST_DIR = path.resolve(process.env.DIST_DIR || "dist");
+const PRESETS_DIR = path.resolve(process.env.PRESETS_DIR || "presets");
+
+const BUNDLED_PRESETS = import.meta.glob("../src/presets/*.json", { eager: true, import: "default" });
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript",
+  ".css": "text/css",
+  ".json": "application/json",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".ico": "image/x-icon",
+  ".woff2": "font/woff2",
+};
+
+async function seedPresets() {
+  try {
+    await fs.access(PRESETS_DIR);
+    return;
+  } catch {
+    // First start: copy the bundled presets
+  }
+  for (const [file, data] of Object.entries(BUNDLED_PRESETS)) {
+    await savePreset(PRESETS_DIR, path.basename(file, ".json"), data);
+  }
+  console.log(`Seeded ${PRESETS_DIR} with ${Object.keys(BUNDLED_PRESETS).length} bundled presets`);
+}
+
+// A file under DIST_DIR for the request path; unknown paths get index.html (client-side routes)
+async function resolveStatic(urlPath: string): Promise<string> {
+  const file = path.join(DIST_DIR, path.normalize(decodeURIComponent(urlPath)));
+  if (file.startsWith(DIST_DIR + path.sep)) {
+    const stat = await fs.stat(file).catch(() => null);
+    if (stat?.isFile()) return file;
+  }
+  return path.join(DIST_DIR, "index.html");
+}
+
+const presetApi = createPresetApi(PRESETS_DIR);
+
+const server = createServer((req, res) => {
+  presetApi(req, res, async () => {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      res.statusCode = 405;
+      res.end();
+      return;
+    }
+    try {
+      const file = await resolveStatic(new URL(req.url || "/", "http://localhost").pathname);
+      const body = await fs.readFile(file);
+      res.setHeader("Content-Type", CONTENT_TYPES[path.extname(file)] || "application/octet-stream");
+      res.end(req.method === "HEAD" ? undefined : body);
+    } catch (error) {
+      console.error("Static file error:", error);
+      res.statusCode = 404;
+      res.end("Not found (run `npm run build` first)");
+    }
+  });
+});
+
+seedPresets().then(() => {
+  server.listen(PORT, () => {
+    console.log(`Prompt Architect on http://localhost:${PORT} (presets in ${PRESETS_DIR})`);
+  });
+});
@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { promises as fs } from "node:fs";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import {
+  createPresetApi,
+  deletePreset,
+  duplicatePreset,
+  findPreset,
+  listRevisions,
+  normalizePresetName,
+  readRevision,
+  renamePreset,
+  restoreRevision,
+  savePreset
+} from "./presetApi";
+import { CURRENT_SCHEMA_VERSION } from "../src/services/presetSchema";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "presets-"));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+const preset = (instructions: string) => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  instructions,
+  sections: [],
+  defaults: { model: "gpt-4o-mini", seed: -1, batch: 1, concurrency: 4 },
+});
+
+const readPreset = async (name: string) => JSON.parse(await fs.readFile(path.join(dir, `${name}.json`), "utf8"));
+
+describe("preset revisions", () => {
+  it("records a revision for every changed save", async () => {
+    await savePreset(dir, "HWS14", { instructions: "one" }, new Date("2026-01-01T10:00:00.000Z"));
+    // Unchanged content (e.g. the save before a run) adds no revision
+    expect(await savePreset(dir, "HWS14", { instructions: "one" }, new Date("2026-01-01T10:05:00.000Z"))).toBeNull();
+    await savePreset(dir, "HWS14", { instructions: "two" }, new Date("2026-01-01T11:00:00.000Z"));
+
+    const revisions = await listRevisions(dir, "HWS14");
+    expect(revisions.map((r) => r.timestamp)).toEqual([
+      Date.parse("2026-01-01T11:00:00.000Z"),
+      Date.parse("2026-01-01T10:00:00.000Z"),
+    ]);
+    expect(await readRevision(dir, "HWS14", revisions[1].id)).toEqual({ instructions: "one" });
+    expect(await readPreset("HWS14")).toEqual({ instructions: "two" });
+  });
+
+  it("keeps revisions saved within the same millisecond apart", async () => {
+    const now = new Date("2026-01-01T10:00:00.000Z");
+    await savePreset(dir, "ORJ", { instructions: "one" }, now);
+    await savePreset(dir, "ORJ", { instructions: "two" }, now);
+    expect(await listRevisions(dir, "ORJ")).toHaveLength(2);
+  });
+
+  it("restores a revision as the current preset", async () => {
+    await savePreset(dir, "HWS14", preset("one"), new Date("2026-01-01T10:00:00.000Z"));
+    await savePreset(dir, "HWS14", preset("two"), new Date("2026-01-01T11:00:00.000Z"));
+    const [, first] = await listRevisions(dir, "HWS14");
+
+    const data = await restoreRevision(dir, "HWS14", first.id, new Date("2026-01-01T12:00:00.000Z"));
+    expect(data).toEqual(preset("one"));
+    expect(await readPreset("HWS14")).toEqual(preset("one"));
+    expect(await listRevisions(dir, "HWS14")).toHaveLength(3);
+  });
+
+  it("keeps content no revision holds before saving over it", async () => {
+    // A bundled preset with no history yet
+    await fs.writeFile(path.join(dir, "HWS14.json"), JSON.stringify(preset("bundled"), null, 2));
+    await savePreset(dir, "HWS14", preset("one"), new Date("2026-01-01T10:00:00.000Z"));
+    const [, original] = await listRevisions(dir, "HWS14");
+    await restoreRevision(dir, "HWS14", original.id, new Date("2026-01-01T11:00:00.000Z"));
+    expect(await readPreset("HWS14")).toEqual(preset("bundled"));
+
+    // A hand edit after the latest revision
+    await fs.writeFile(path.join(dir, "HWS14.json"), JSON.stringify(preset("edited"), null, 2));
+    await savePreset(dir, "HWS14", preset("two"), new Date("2026-01-01T12:00:00.000Z"));
+    const revisions = await listRevisions(dir, "HWS14");
+    expect(revisions).toHaveLength(5);
+    expect(await readRevision(dir, "HWS14", revisions[1].id)).toEqual(preset("edited"));
+  });
+
+  it("refuses to restore a revision that fails validation", async () => {
+    await savePreset(dir, "HWS14", { ...preset("one"), defaults: { model: 4 } }, new Date("2026-01-01T10:00:00.000Z"));
+    const [revision] = await listRevisions(dir, "HWS14");
+    await expect(restoreRevision(dir, "HWS14", revision.id)).rejects.toThrow(/defaults\.model: expected a string/);
+  });
+
+  it("rejects revision ids that are not timestamps", async () => {
+    await expect(readRevision(dir, "HWS14", "../HWS14")).rejects.toThrow(/Invalid revision id/);
+    expect(await listRevisions(dir, "missing")).toEqual([]);
+  });
+});
+
+describe("preset names", () => {
+  it("normalises names", () => {
+    expect(normalizePresetName("  Night   shoot.json ")).toBe("Night shoot");
+    expect(normalizePresetName("HWS14_v2-final")).toBe("HWS14_v2-final");
+  });
+
+  it("rejects names that could leave the presets folder", () => {
+    ["../x", "a/b", "a\\b", ".history", "", "   ", "x".repeat(65)].forEach((name) => {
+      expect(() => normalizePresetName(name), name).toThrow();
+    });
+    expect(() => normalizePresetName(undefined)).toThrow(/required/);
+  });
+});
+
+describe("preset CRUD", () => {
+  it("renames a preset together with its revisions", async () => {
+    await savePreset(dir, "HWS14", preset("one"));
+    expect(await renamePreset(dir, "hws14", "Action figure")).toBe("Action figure");
+    expect(await findPreset(dir, "HWS14")).toBeNull();
+    expect(await readPreset("Action figure")).toEqual(preset("one"));
+    expect(await listRevisions(dir, "Action figure")).toHaveLength(1);
+    expect(await listRevisions(dir, "HWS14")).toEqual([]);
+  });
+
+  it("keeps revisions when only the case of the name changes", async () => {
+    await savePreset(dir, "HWS14", preset("one"));
+    await savePreset(dir, "HWS14", preset("two"));
+    expect(await renamePreset(dir, "HWS14", "Hws14")).toBe("Hws14");
+    expect(await findPreset(dir, "hws14")).toBe("Hws14");
+    expect(await listRevisions(dir, "Hws14")).toHaveLength(2);
+  });
+
+  it("records a rename over another preset as a revision of that preset", async () => {
+    await savePreset(dir, "HWS14", preset("one"), new Date("2026-01-01T10:00:00.000Z"));
+    await savePreset(dir, "ORJ", preset("two"), new Date("2026-01-01T10:00:00.000Z"));
+    // Hand edits neither history holds yet
+    await fs.writeFile(path.join(dir, "HWS14.json"), JSON.stringify(preset("one, edited"), null, 2));
+    await fs.writeFile(path.join(dir, "ORJ.json"), JSON.stringify(preset("two, edited"), null, 2));
+    expect(await renamePreset(dir, "HWS14", "orj", true, new Date("2026-01-01T11:00:00.000Z"))).toBe("ORJ");
+
+    expect(await readPreset("ORJ")).toEqual(preset("one, edited"));
+    const target = await listRevisions(dir, "ORJ");
+    expect(await Promise.all(target.map((revision) => readRevision(dir, "ORJ", revision.id)))).toEqual([
+      preset("one, edited"),
+      preset("two, edited"),
+      preset("two"),
+    ]);
+    // The renamed preset's own history stays under its old name
+    expect(await findPreset(dir, "HWS14")).toBeNull();
+    const source = await listRevisions(dir, "HWS14");
+    expect(await Promise.all(source.map((revision) => readRevision(dir, "HWS14", revision.id)))).toEqual([preset("one, edited"), preset("one")]);
+  });
+
+  it("asks before replacing another preset", async () => {
+    await savePreset(dir, "HWS14", preset("one"));
+    await savePreset(dir, "ORJ", preset("two"));
+    await expect(duplicatePreset(dir, "HWS14", "orj")).rejects.toMatchObject({ status: 409 });
+    await expect(renamePreset(dir, "HWS14", "ORJ")).rejects.toMatchObject({ status: 409 });
+
+    // Confirmed: the existing file (and its casing) is reused
+    expect(await duplicatePreset(dir, "HWS14", "orj", true)).toBe("ORJ");
+    expect(await readPreset("ORJ")).toEqual(preset("one"));
+  });
+
+  it("deletes a preset but keeps its revisions", async () => {
+    await savePreset(dir, "HWS14", preset("one"));
+    await deletePreset(dir, "HWS14");
+    expect(await findPreset(dir, "HWS14")).toBeNull();
+    expect(await listRevisions(dir, "HWS14")).toHaveLength(1);
+
+    // Content no revision holds is recorded before the file goes
+    await fs.writeFile(path.join(dir, "ORJ.json"), JSON.stringify(preset("never saved"), null, 2));
+    await deletePreset(dir, "ORJ");
+    const [revision] = await listRevisions(dir, "ORJ");
+    expect(await readRevision(dir, "ORJ", revision.id)).toEqual(preset("never saved"));
+    await expect(deletePreset(dir, "HWS14")).rejects.toMatchObject({ status: 404 });
+  });
+});
+
+describe("preset API routes", () => {
+  async function serve() {
+    const api = createPresetApi(dir);
+    const server = http.createServer((req, res) => api(req, res, () => res.writeHead(404).end()));
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/presets`;
+    return { base, close: () => new Promise((resolve) => server.close(resolve)) };
+  }
+
+  it("finds revisions whatever the case of the name, and answers bad JSON with 400", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await savePreset(dir, "HWS14", preset("one"));
+    const { base, close } = await serve();
+    try {
+      const { revisions } = await (await fetch(`${base}/revisions?name=hws14`)).json();
+      expect(revisions).toHaveLength(1);
+      const revision = await (await fetch(`${base}/revision?name=Hws14&id=${revisions[0].id}`)).json();
+      expect(revision.data).toEqual(preset("one"));
+      const restored = await fetch(`${base}/restore`, { method: "POST", body: JSON.stringify({ name: "hws14", id: revisions[0].id }) });
+      expect(restored.status).toBe(200);
+
+      const invalid = await fetch(`${base}/save`, { method: "POST", body: "{not json" });
+      expect(invalid.status).toBe(400);
+      expect((await invalid.json()).error).toMatch(/not valid JSON/);
+    } finally {
+      await close();
+      vi.restoreAllMocks();
+    }
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * Preset API served by the Vite dev server (presets in `src/presets/`) and by the
+ * standalone server in `server/index.ts`. Every save is also kept as a timestamped
+ * revision under `<presets dir>/.history/<name>/`.
+ */
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { parsePreset, PresetValidationError } from "../src/services/presetSchema";
+import { normalizePresetName, PresetNameError, samePresetName } from "../src/services/presetNames";
+
+export { normalizePresetName };
+
+export const HISTORY_DIR = ".history";
+
+export interface PresetRevision {
+  id: string;
+  timestamp: number;
+  size: number;
+}
+
+// A bad request from the client, answered with its status (400 unless given)
+export class PresetApiError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Name of an existing preset file matching `name` case-insensitively (file systems
+ * differ on case), or null.
+ */
+export async function findPreset(presetsDir: string, name: string): Promise<string | null> {
+  let files: string[];
+  try {
+    files = await fs.readdir(presetsDir);
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return null;
+    throw error;
+  }
+  const match = files.find((file) => file.endsWith(".json") && samePresetName(file.slice(0, -5), name));
+  return match ? match.slice(0, -5) : null;
+}
+
+// The stored casing of `name` when the preset exists; revisions of a deleted preset keep the name as given
+async function resolvePresetName(presetsDir: string, name: string): Promise<string> {
+  return (await findPreset(presetsDir, name)) ?? name;
+}
+
+async function requirePreset(presetsDir: string, name: string): Promise<string> {
+  const existing = await findPreset(presetsDir, name);
+  if (!existing) throw new PresetApiError(`Preset "${name}" does not exist`, 404);
+  return existing;
+}
+
+// Refuse to replace a different existing preset unless the client confirmed the overwrite
+async function checkOverwrite(presetsDir: string, name: string, overwrite: unknown, except?: string) {
+  const existing = await findPreset(presetsDir, name);
+  if (existing && existing !== except && overwrite !== true) {
+    throw new PresetApiError(`Preset "${existing}" already exists`, 409);
+  }
+  return existing;
+}
+
+// Revision ids are generated from timestamps; anything else is rejected
+const REVISION_ID = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z(?:-\d+)?$/;
+
+function revisionId(date: Date) {
+  return date.toISOString().replace(/[:.]/g, "-");
+}
+
+function revisionTimestamp(id: string) {
+  const [, date, h, m, s, ms] = id.match(/^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z/) || [];
+  return date ? Date.parse(`${date}T${h}:${m}:${s}.${ms}Z`) : 0;
+}
+
+function historyDir(presetsDir: string, name: string) {
+  return path.join(presetsDir, HISTORY_DIR, name);
+}
+
+export async function listRevisions(presetsDir: string, name: string): Promise<PresetRevision[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(historyDir(presetsDir, name));
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return [];
+    throw error;
+  }
+  const revisions = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json") && REVISION_ID.test(file.slice(0, -5)))
+      .map(async (file) => {
+        const id = file.slice(0, -5);
+        const stat = await fs.stat(path.join(historyDir(presetsDir, name), file));
+        return { id, timestamp: revisionTimestamp(id), size: stat.size };
+      })
+  );
+  // Newest first; ids sort chronologically
+  return revisions.sort((a, b) => b.id.localeCompare(a.id));
+}
+
+export async function readRevision(presetsDir: string, name: string, id: string): Promise<unknown> {
+  if (!REVISION_ID.test(id)) throw new PresetApiError(`Invalid revision id: ${id}`);
+  const text = await fs.readFile(path.join(historyDir(presetsDir, name), `${id}.json`), "utf8");
+  return JSON.parse(text);
+}
+
+async function readIfExists(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, "utf8");
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+// Store `content` as a revision that sorts after `latest`
+async function addRevision(presetsDir: string, name: string, content: string, now: Date, latest?: PresetRevision): Promise<PresetRevision> {
+  const dir = historyDir(presetsDir, name);
+  await fs.mkdir(dir, { recursive: true });
+  let id = revisionId(now);
+  for (let n = 1; latest && id <= latest.id; n++) id = `${revisionId(now)}-${n}`;
+  await fs.writeFile(path.join(dir, `${id}.json`), content);
+  return { id, timestamp: revisionTimestamp(id), size: Buffer.byteLength(content) };
+}
+
+/**
+ * Record the preset file's content as a revision when no revision holds it yet (a bundled
+ * preset, or a hand edit since the last save), so it can be restored after it is replaced.
+ * Resolves with the latest revision and its content.
+ */
+async function snapshotUnsaved(presetsDir: string, name: string, now: Date): Promise<{ latest?: PresetRevision; saved: string | null }> {
+  let [latest] = await listRevisions(presetsDir, name);
+  let saved = latest ? await fs.readFile(path.join(historyDir(presetsDir, name), `${latest.id}.json`), "utf8") : null;
+  const current = await readIfExists(path.join(presetsDir, `${name}.json`));
+  if (current !== null && current !== saved) {
+    latest = await addRevision(presetsDir, name, current, now, latest);
+    saved = current;
+  }
+  return { latest, saved };
+}
+
+/**
+ * Write a preset and record the saved content as a new revision.
+ * Content on disk that no revision holds yet is recorded first (see snapshotUnsaved).
+ * Saving content identical to the latest revision (e.g. the save before every run)
+ * does not add another revision.
+ */
+export async function savePreset(presetsDir: string, name: string, data: unknown, now = new Date()): Promise<PresetRevision | null> {
+  const content = JSON.stringify(data, null, 2);
+  const { latest, saved } = await snapshotUnsaved(presetsDir, name, now);
+  await fs.mkdir(presetsDir, { recursive: true });
+  await fs.writeFile(path.join(presetsDir, `${name}.json`), content);
+  if (saved === content) return null;
+  return addRevision(presetsDir, name, content, now, latest);
+}
+
+async function moveHistory(presetsDir: string, from: string, to: string) {
+  await fs.rename(historyDir(presetsDir, from), historyDir(presetsDir, to)).catch((error) => {
+    if (error?.code !== "ENOENT") throw error;
+  });
+}
+
+/**
+ * Rename a preset and move its revisions along with it.
+ * A name that already has revisions (a replaced or deleted preset) keeps its own history:
+ * the renamed content is saved there as a new revision, and the source's revisions stay
+ * under its old name, as for a delete.
+ */
+export async function renamePreset(presetsDir: string, from: string, to: string, overwrite = false, now = new Date()): Promise<string> {
+  const source = await requirePreset(presetsDir, from);
+  const target = await checkOverwrite(presetsDir, to, overwrite, source);
+  const sourceFile = path.join(presetsDir, `${source}.json`);
+
+  // Only the case changes: on a case-insensitive file system both names are one file and one folder
+  if (samePresetName(source, to)) {
+    if (source !== to) {
+      await fs.rename(sourceFile, path.join(presetsDir, `${to}.json`));
+      await moveHistory(presetsDir, source, to);
+    }
+    return to;
+  }
+
+  if (target || (await listRevisions(presetsDir, to)).length) {
+    const name = target ?? to;
+    await savePreset(presetsDir, name, JSON.parse(await fs.readFile(sourceFile, "utf8")), now);
+    await deletePreset(presetsDir, source, now);
+    return name;
+  }
+
+  await fs.rename(sourceFile, path.join(presetsDir, `${to}.json`));
+  await moveHistory(presetsDir, source, to);
+  return to;
+}
+
+export async function duplicatePreset(presetsDir: string, from: string, to: string, overwrite = false): Promise<string> {
+  const source = await requirePreset(presetsDir, from);
+  const target = (await checkOverwrite(presetsDir, to, overwrite)) ?? to;
+  const data = JSON.parse(await fs.readFile(path.join(presetsDir, `${source}.json`), "utf8"));
+  await savePreset(presetsDir, target, data);
+  return target;
+}
+
+/**
+ * Delete a preset file. Its revisions (including its last content) are kept, so it can
+ * be restored by saving a preset with the same name.
+ */
+export async function deletePreset(presetsDir: string, name: string, now = new Date()): Promise<void> {
+  const existing = await requirePreset(presetsDir, name);
+  await snapshotUnsaved(presetsDir, existing, now);
+  await fs.rm(path.join(presetsDir, `${existing}.json`));
+}
+
+export async function restoreRevision(presetsDir: string, name: string, id: string, now = new Date()): Promise<unknown> {
+  const data = parsePreset(await readRevision(presetsDir, name, id), name);
+  await savePreset(presetsDir, name, data, now);
+  return data;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk.toString()));
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(body));
+      } catch {
+        reject(new PresetApiError("Request body is not valid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Connect-style middleware for the `/api/presets/*` endpoints.
+ */
+export function createPresetApi(presetsDir: string) {
+  return (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    const route = `${req.method} ${url.pathname}`;
+
+    const handle = (label: string, fn: () => Promise<unknown>) => {
+      console.log(`Handling ${label} request`);
+      fn()
+        .then((body) => sendJson(res, 200, body))
+        .catch((error) => {
+          console.error(`${label} error:`, error);
+          if (error instanceof PresetValidationError) {
+            sendJson(res, 400, { success: false, error: error.message, issues: error.issues });
+          } else if (error instanceof PresetNameError) {
+            sendJson(res, 400, { success: false, error: error.message });
+          } else if (error instanceof PresetApiError) {
+            sendJson(res, error.status, { success: false, error: error.message });
+          } else {
+            sendJson(res, error?.code === "ENOENT" ? 404 : 500, { success: false, error: `Failed to ${label}` });
+          }
+        });
+    };
+
+    switch (route) {
+      // Save preset
+      case "POST /api/presets/save":
+        return handle("save preset", async () => {
+          const body = await readBody(req);
+          // Saving over the preset being edited is a normal save; "save as" sends `overwrite: false`
+          const requested = normalizePresetName(body.name);
+          const name = (await checkOverwrite(presetsDir, requested, body.overwrite ?? true)) ?? requested;
+          // Stored migrated to the current schema version
+          const revision = await savePreset(presetsDir, name, parsePreset(body.data, name));
+          return { success: true, name, message: `Preset ${name} saved successfully`, revision };
+        });
+
+      // List presets
+      case "GET /api/presets/list":
+        return handle("list presets", async () => {
+          const files = await fs.readdir(presetsDir);
+          const presets = files
+            .filter(file => file.endsWith('.json'))
+            .map(file => file.replace('.json', ''));
+          return { presets };
+        });
+
+      // Load one preset (raw file content; the client migrates and validates it)
+      case "GET /api/presets/get":
+        return handle("load preset", async () => {
+          const name = await requirePreset(presetsDir, normalizePresetName(url.searchParams.get("name")));
+          const text = await fs.readFile(path.join(presetsDir, `${name}.json`), "utf8");
+          try {
+            return { name, data: JSON.parse(text) };
+          } catch (error: any) {
+            throw new PresetValidationError([`file is not valid JSON (${error.message})`], name);
+          }
+        });
+
+      // List revisions of a preset, newest first
+      case "GET /api/presets/revisions":
+        return handle("list revisions", async () => {
+          const name = await resolvePresetName(presetsDir, normalizePresetName(url.searchParams.get("name")));
+          return { revisions: await listRevisions(presetsDir, name) };
+        });
+
+      // Fetch one revision
+      case "GET /api/presets/revision":
+        return handle("load revision", async () => {
+          const name = await resolvePresetName(presetsDir, normalizePresetName(url.searchParams.get("name")));
+          const id = url.searchParams.get("id") || "";
+          return { data: await readRevision(presetsDir, name, id) };
+        });
+
+      // Make a revision the current preset (itself recorded as a new save)
+      case "POST /api/presets/restore":
+        return handle("restore revision", async () => {
+          const body = await readBody(req);
+          const name = await resolvePresetName(presetsDir, normalizePresetName(body.name));
+          const data = await restoreRevision(presetsDir, name, body.id);
+          return { success: true, message: `Preset ${name} restored`, data };
+        });
+
+      // Rename a preset (`overwrite` confirms replacing an existing preset)
+      case "POST /api/presets/rename":
+        return handle("rename preset", async () => {
+          const body = await readBody(req);
+          const name = await renamePreset(presetsDir, normalizePresetName(body.from), normalizePresetName(body.to), body.overwrite === true);
+          return { success: true, name, message: `Preset renamed to ${name}` };
+        });
+
+      // Copy a preset under a new name
+      case "POST /api/presets/duplicate":
+        return handle("duplicate preset", async () => {
+          const body = await readBody(req);
+          const name = await duplicatePreset(presetsDir, normalizePresetName(body.from), normalizePresetName(body.to), body.overwrite === true);
+          return { success: true, name, message: `Preset duplicated as ${name}` };
+        });
+
+      // Delete a preset (its revisions are kept)
+      case "POST /api/presets/delete":
+        return handle("delete preset", async () => {
+          const body = await readBody(req);
+          const name = normalizePresetName(body.name);
+          await deletePreset(presetsDir, name);
+          return { success: true, name, message: `Preset ${name} deleted` };
+        });
+    }
+
+    // Handle OPTIONS requests for CORS
+    if (req.method === "OPTIONS") {
+      res.setHeader("Access-Control-Allow-Origin", "*");
+      res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+      res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+      res.end();
+      return;
+    }
+
+    next();
+  };
+}
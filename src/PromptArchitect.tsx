@@ -1,14 +1,38 @@
 import React, { useEffect, useState, useRef, useMemo, useCallback } from "react";
 import { useLocalStorage, useBatchLocalStorage } from "./hooks/useLocalStorage";
-import { useOpenAI } from "./hooks/useAPI";
-import {
-  CandidatePool,
-  pickOneValue
-} from "./utils/randomPicker";
-import { getPreset, getAvailablePresets, putPreset, DEFAULT_PRESET, PresetData, SectionData, resolvePresetSections } from "./services/presetService";
+import { useLLMProvider } from "./hooks/useAPI";
+import { ChatMessage, getProvider, PROVIDERS, ProviderId, TokenUsage } from "./services/llmProviders";
+import { getCandidates, normalizeSamplingMode, SamplingMode } from "./utils/randomPicker";
+import { buildPayloads, JoinStyle, normalizeJoinStyle, normalizePickCount, PickCount, sectionPool } from "./utils/payloadBuilder";
+import { ConstraintRule, findRuleProblems, renameRuleSection } from "./utils/constraints";
+import { getPreset, getAvailablePresets, getPresetBackend, putPreset, renamePreset, duplicatePreset, deletePreset, PresetExistsError, DEFAULT_PRESET, PresetData, RunMode, SectionData, resolvePresetSections } from "./services/presetService";
+import { CURRENT_SCHEMA_VERSION } from "./services/presetSchema";
+import { renderTemplate } from "./utils/templateRenderer";
+import { checkOutput, generateChecked, hasOutputConstraints, OutputConstraints } from "./utils/outputConstraints";
+import { checkFidelity } from "./utils/fidelity";
+import { normalizeOutputFields, OUTPUT_SCHEMA_NAME, OutputField, outputJsonSchema, parseStructuredOutput } from "./utils/structuredOutput";
+import { buildLLMMessages as buildMessagesFor } from "./services/promptMessages";
 import { EditableSectionTitle } from "./components/EditableSectionTitle";
 import { BoxEditor } from "./components/BoxEditor";
-import { PresetSelector } from "./components/PresetSelector";
+import { PresetSelector, PresetNameAction } from "./components/PresetSelector";
+import { BatchResults } from "./components/BatchResults";
+import { BatchItem, collectPrompts, createBatchItems, createPauseGate, PauseGate, resetBatchItems, runBatch, summarizeBatch } from "./services/batchRunner";
+import { FailedItems } from "./components/FailedItems";
+import { FidelityPanel } from "./components/FidelityPanel";
+import { RulesEditor } from "./components/RulesEditor";
+import { OutputConstraintsEditor } from "./components/OutputConstraintsEditor";
+import { OutputFieldsEditor } from "./components/OutputFieldsEditor";
+import { StructuredResults } from "./components/StructuredResults";
+import { HistoryPanel } from "./components/HistoryPanel";
+import { ExportDialog } from "./components/ExportDialog";
+import { ImportDialog } from "./components/ImportDialog";
+import { CostEstimate } from "./components/CostEstimate";
+import { ResponseCacheControls } from "./components/ResponseCacheControls";
+import { createScheduler, DEFAULT_RATE_LIMITS, RateLimitSettings, SchedulerState } from "./services/scheduler";
+import { Budget, checkBudget, createSpendGuard, DEFAULT_BUDGET, DEFAULT_MODEL_PRICES, DEFAULT_OUTPUT_TOKENS, estimateBatchCost, estimateMessageTokens, findModelPrice, formatCost, formatTokens, ModelPrice, sumUsage, usageCost } from "./utils/costEstimate";
+import { buildExportRows, ExportFormat, exportPrompts, getExportFormat, normalizeExportFormat } from "./utils/exporters";
+import { DEFAULT_RESPONSE_CACHE, evictResponses, getCachedResponse, putCachedResponse, responseCacheKey, ResponseCacheSettings } from "./services/responseCache";
+import { deleteRun, listRuns, RunRecord, runResults, runToBatchItems, runToPresetData, saveRun } from "./services/historyStore";
 
 
 // ---------------------------------------------
@@ -28,6 +52,9 @@ async function loadDefaultPreset(): Promise<PresetData> {
   }
 }
 
+// Import dialog target for a whole-preset import
+const ALL_SECTIONS = "*";
+
 // ---------------------------------------------
 // UI Components
 // ---------------------------------------------
@@ -40,7 +67,7 @@ export default function PromptArchitect() {
   const [presetName, setPresetName] = useLocalStorage("pa_preset", "HWS14");
   const [presetOptions, setPresetOptions] = useState(["default", "HWS14", "ORJ", "Reptile"]);
   const [newPresetName, setNewPresetName] = useState("");
-  const [isEditingPresetName, setIsEditingPresetName] = useState(false);
+  const [presetNameAction, setPresetNameAction] = useState<PresetNameAction | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState(false);
   
@@ -55,6 +82,18 @@ export default function PromptArchitect() {
   // Dynamic sections - will be loaded from preset
   const [sections, setSections] = useState<SectionData[]>([]);
 
+  // Cross-section constraint rules - will be loaded from preset
+  const [rules, setRules] = useState<ConstraintRule[]>([]);
+
+  // Local output template for "Render locally" - will be loaded from preset
+  const [outputTemplate, setOutputTemplate] = useState("");
+
+  // Checks on every result (word range, single line, forbidden terms, prefix/suffix) - will be loaded from preset
+  const [outputConstraints, setOutputConstraints] = useState<OutputConstraints>({});
+
+  // Structured output: JSON replies with several fields per prompt - will be loaded from preset
+  const [outputFields, setOutputFields] = useState<OutputField[]>([]);
+
   // Helper functions for section management
   const handleAddSection = useCallback(() => {
     const newSection: SectionData = {
@@ -63,6 +102,7 @@ export default function PromptArchitect() {
       list: "",
       selections: [],
       isRandomized: true,
+      samplingMode: "random",
     };
     setSections(prevSections => [...prevSections, newSection]);
   }, []);
@@ -78,13 +118,27 @@ export default function PromptArchitect() {
       return;
     }
     
+    // Rules refer to sections by title, so they follow the rename
+    const previousTitle = sections.find(s => s.id === id)?.title;
     setSections(prev => prev.map(s => s.id === id ? {...s, title: trimmedTitle} : s));
-  }, []);
+    if (previousTitle) setRules(r => renameRuleSection(r, previousTitle, trimmedTitle));
+  }, [sections]);
 
   const handleSectionListChange = useCallback((id: string, newList: string) => {
     setSections(prev => prev.map(s => s.id === id ? {...s, list: newList} : s));
   }, []);
 
+  // Import dialog target: a section id, or ALL_SECTIONS for the whole preset
+  const [importTarget, setImportTarget] = useState<string | null>(null);
+
+  const applyImportedLists = useCallback((lists: { id: string; list: string }[]) => {
+    setSections(prev => prev.map(s => {
+      const imported = lists.find(l => l.id === s.id);
+      return imported ? {...s, list: imported.list} : s;
+    }));
+    setImportTarget(null);
+  }, []);
+
   const handleSectionSelectionsChange = useCallback((id: string, newSelections: string[]) => {
     setSections(prev => prev.map(s => s.id === id ? {...s, selections: newSelections} : s));
   }, []);
@@ -93,16 +147,35 @@ export default function PromptArchitect() {
     setSections(prev => prev.map(s => s.id === id ? {...s, isRandomized} : s));
   }, []);
 
+  const handleSectionSamplingModeChange = useCallback((id: string, samplingMode: SamplingMode) => {
+    setSections(prev => prev.map(s => s.id === id ? {...s, samplingMode} : s));
+  }, []);
+
+  const handleSectionPickCountChange = useCallback((id: string, pickCount: PickCount) => {
+    setSections(prev => prev.map(s => s.id === id ? {...s, pickCount: normalizePickCount(pickCount)} : s));
+  }, []);
+
+  const handleSectionJoinStyleChange = useCallback((id: string, joinStyle: JoinStyle) => {
+    setSections(prev => prev.map(s => s.id === id ? {...s, joinStyle} : s));
+  }, []);
+
+  const handleSectionHiddenToggle = useCallback((id: string) => {
+    setSections(prev => prev.map(s => s.id === id ? {...s, isHidden: !s.isHidden} : s));
+  }, []);
+
   // Controls - will be loaded from preset
   const [controls, updateControl] = useBatchLocalStorage({
     seed: -1,
     batch: 1,
     concurrency: 4,
-    model: "gpt-4o-mini"
+    model: "gpt-4o-mini",
+    provider: "openai" as ProviderId,
+    baseUrl: "",
+    stream: true,
+    runMode: "llm" as RunMode
   });
-
-  // Always use pure random mode (true random selection for randomized sections)
-  const balancedMode = false;
+  const isLocalRun = controls.runMode === "local";
+  const provider = getProvider(controls.provider);
 
   // Results + preview + progress
   const [prompts, setPrompts] = useLocalStorage<string[]>('pa_prompts', []);
@@ -112,17 +185,63 @@ export default function PromptArchitect() {
   const [success, setSuccess] = useState("");
   const [showPreview, setShowPreview] = useState(false);
   const [lastPayloads, setLastPayloads] = useState<any[]>([]);
-  const [progress, setProgress] = useState({ total: 0, done: 0, ok: 0, fail: 0 });
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const progress = useMemo(() => summarizeBatch(items), [items]);
+  const flaggedItems = useMemo(() => items.filter((item) => item.status === "ok" && item.violations), [items]);
+
+  // Run control: abort cancels the batch, the gate pauses new requests
+  const abortRef = useRef<AbortController | null>(null);
+  const gateRef = useRef<PauseGate | null>(null);
+  const [paused, setPaused] = useState(false);
+
+  // Export dialog; the last format used is remembered
+  const [showExport, setShowExport] = useState(false);
+  const [exportFormat, setExportFormat] = useLocalStorage<ExportFormat>('pa_export_format', 'txt');
+
+  // Pre-flight cost estimate: editable price table, expected output size and optional budget cap
+  const [modelPrices, setModelPrices] = useLocalStorage<ModelPrice[]>('pa_model_prices', DEFAULT_MODEL_PRICES);
+  const [outputTokens, setOutputTokens] = useLocalStorage('pa_output_tokens', DEFAULT_OUTPUT_TOKENS);
+  const [budget, setBudget] = useLocalStorage<Budget>('pa_budget', DEFAULT_BUDGET);
+
+  // Rate limits: requests/tokens per minute and adaptive concurrency; live scheduler state for the progress line
+  const [rateLimits, setRateLimits] = useLocalStorage<RateLimitSettings>('pa_rate_limits', DEFAULT_RATE_LIMITS);
+  const [schedulerState, setSchedulerState] = useState<SchedulerState | null>(null);
+
+  // Opt-in response cache (IndexedDB); the bypass applies to the next run only
+  const [responseCache, setResponseCache] = useLocalStorage<ResponseCacheSettings>('pa_response_cache', DEFAULT_RESPONSE_CACHE);
+  const [bypassCache, setBypassCache] = useState(false);
+
+  // Run history (IndexedDB); the current run's record is updated again on retry
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyRuns, setHistoryRuns] = useState<RunRecord[]>([]);
+  const [historyError, setHistoryError] = useState("");
+  const currentRunRef = useRef<RunRecord | null>(null);
+
+  // Streamed tokens land in a ref and are flushed to state once per frame
+  const itemsRef = useRef<BatchItem[]>([]);
+  const flushFrameRef = useRef<number | null>(null);
+  const publishItem = useCallback((item: BatchItem) => {
+    itemsRef.current[item.index] = item;
+    if (flushFrameRef.current !== null) return;
+    flushFrameRef.current = requestAnimationFrame(() => {
+      flushFrameRef.current = null;
+      setItems([...itemsRef.current]);
+    });
+  }, []);
 
   // API key from GUI input
   const [apiKey, setApiKey] = useLocalStorage("pa_api_key", "");
-  const openAI = useOpenAI();
+  const llm = useLLMProvider();
+
+  // Where presets are kept: the preset API, or bundled presets plus browser storage
+  const [presetStorage, setPresetStorage] = useState<"server" | "browser">("server");
 
   // Load available presets on mount
   useEffect(() => {
     const loadPresets = async () => {
       const availablePresets = await getAvailablePresets();
       setPresetOptions(availablePresets);
+      setPresetStorage((await getPresetBackend()).kind);
     };
     loadPresets();
   }, []);
@@ -148,105 +267,255 @@ export default function PromptArchitect() {
     }
   }, [instructions]);
 
+  // Load preset data into the editor and run controls
+  const applyPresetData = useCallback((presetData: PresetData) => {
+    setInstructions(presetData.instructions || "");
+    setSections(resolvePresetSections(presetData));
+    setRules(Array.isArray(presetData.rules) ? presetData.rules : []);
+    setOutputTemplate(presetData.outputTemplate || "");
+    setOutputConstraints(presetData.outputConstraints || {});
+    setOutputFields(Array.isArray(presetData.outputFields) ? presetData.outputFields : []);
+
+    const defaults = presetData.defaults || {};
+    updateControl('model', defaults.model || "gpt-4o-mini");
+    updateControl('seed', Number.isFinite(defaults.seed) ? defaults.seed : -1);
+    updateControl('batch', Number.isFinite(defaults.batch) ? defaults.batch : 1);
+    updateControl('concurrency', Number.isFinite(defaults.concurrency) ? defaults.concurrency : 4);
+    updateControl('provider', getProvider(defaults.provider).id);
+    updateControl('baseUrl', defaults.baseUrl || "");
+    updateControl('runMode', defaults.runMode === "local" ? "local" : "llm");
+  }, [updateControl]);
+
   // Load preset whenever preset changes
   useEffect(() => {
     (async () => {
       try {
         const preset = await getPreset(presetName);
-        const presetData = preset || await loadDefaultPreset();
-
-        setInstructions(presetData.instructions || "");
-        setSections(resolvePresetSections(presetData));
-
-        const defaults = presetData.defaults || {};
-        updateControl('model', defaults.model || "gpt-4o-mini");
-        updateControl('seed', Number.isFinite(defaults.seed) ? defaults.seed : -1);
-        updateControl('batch', Number.isFinite(defaults.batch) ? defaults.batch : 1);
-        updateControl('concurrency', Number.isFinite(defaults.concurrency) ? defaults.concurrency : 4);
+        applyPresetData(preset || await loadDefaultPreset());
+        setError("");
       } catch (e) {
+        // Invalid preset file: keep the editor as it is and say which field is wrong
         console.warn("Preset load error:", e);
+        setError(e instanceof Error ? e.message : String(e));
       }
     })();
-  }, [presetName, updateControl]);
+  }, [presetName, applyPresetData]);
 
 
-  // Build one payload — single-draw per section (still returns exactly one value)
-  const buildOne = useCallback((batchIndex: number, seedBase: number) => {
-    const payload: Record<string, string> = {};
+  // Rule problems (unknown sections, triggers that leave a section empty)
+  const ruleProblems = useMemo(() => {
+    if (!rules.length) return [];
+    const candidatesBySection: Record<string, string[]> = {};
     sections.forEach((section) => {
-      if (!section.title?.trim()) return; // skip untitled sections
-      
-      const pool: CandidatePool = {
-        label: section.title,
-        listText: section.list,
-        selections: section.selections,
-        isRandomized: !!section.isRandomized,
-      };
-      const val = pickOneValue(pool, Number(seedBase), batchIndex, section.id);
-      const trimmedVal = val?.trim();
-      if (trimmedVal) payload[section.title] = trimmedVal; // only add non-empty values
+      if (section.title?.trim()) candidatesBySection[section.title] = getCandidates(sectionPool(section));
     });
-    return payload;
-  }, [sections]);
+    return findRuleProblems(candidatesBySection, rules);
+  }, [sections, rules]);
 
-  // Messages
-  const buildLLMMessages = useCallback((payload: any) => {
-    // Generate dynamic field names based on current section titles
-    const fieldNames = sections.map(section => section.title).join(", ");
-    
-    const schema =
-`The user message is a JSON object with these fields:
-${fieldNames}.
-Use them verbatim as source tags; rewrite into one cohesive cinematic paragraph.
-Do not invent values not present; resolve contradictions by omission only.`;
-    const system = `${schema}\n\n${instructions || "You rewrite a structured scene spec into ONE cinematic paragraph for an AI image generator."}`;
-    const user = JSON.stringify(payload, null, 2);
-    return [{ role: "system", content: system }, { role: "user", content: user }];
-  }, [instructions, sections]);
-
-  // Concurrency-limited LLM calls + progress
-  const callLLM = useCallback(async (payloads: any[], maxParallel = 4) => {
-    if (!apiKey) throw new Error("No API key set. Enter your OpenAI API key to use Send to GPT.");
+  // Sample payloads for the JSON preview before anything has been sent (wildcards resolved)
+  const previewSample = useMemo(() => {
+    if (!showPreview || lastPayloads.length) return "";
+    try {
+      const sample = buildPayloads(sections, {
+        seedBase: Number(controls.seed),
+        batchSize: Math.min(3, Math.max(1, Number(controls.batch) || 1)),
+        rules,
+      });
+      return `// Sample only — click 'Send to GPT' to generate the exact JSON that gets sent\n${JSON.stringify(sample, null, 2)}`;
+    } catch (e: any) {
+      return `(Preview failed: ${e.message || String(e)})`;
+    }
+  }, [showPreview, lastPayloads.length, sections, rules, controls.seed, controls.batch]);
+
+  // Messages (shared with the CLI)
+  const buildLLMMessages = useCallback(
+    (payload: any): ChatMessage[] => buildMessagesFor(payload, instructions, sections, normalizeOutputFields(outputFields)),
+    [instructions, sections, outputFields]
+  );
+
+  // Live estimate from a sample of payloads (a fixed seed when random, so it does not jump around)
+  const costEstimate = useMemo(() => {
+    const batchSize = Math.max(1, Number(controls.batch) || 1);
+    const price = findModelPrice(modelPrices, controls.model);
+    if (isLocalRun) return null;
+    try {
+      const seedBase = Number(controls.seed) === -1 ? 0 : Number(controls.seed);
+      const sample = buildPayloads(sections, { seedBase, batchSize: Math.min(batchSize, 20), rules });
+      return estimateBatchCost(sample.map(buildLLMMessages), batchSize, outputTokens, price);
+    } catch {
+      return estimateBatchCost([], batchSize, outputTokens, price);
+    }
+  }, [isLocalRun, sections, rules, controls.batch, controls.seed, controls.model, modelPrices, outputTokens, buildLLMMessages]);
+
+  // How faithfully each finished output uses its payload (skipped while a run is streaming in)
+  const fidelityReports = useMemo(
+    () => (busy ? [] : items.map((item) => (item.status === "ok" && lastPayloads[item.index] ? checkFidelity(item.text, lastPayloads[item.index], sections) : null))),
+    [busy, items, lastPayloads, sections]
+  );
+
+  // Cost of the tokens reported so far
+  const runCost = useMemo(
+    () => usageCost(progress.usage, findModelPrice(modelPrices, controls.model)),
+    [progress.usage, modelPrices, controls.model]
+  );
+
+  // Concurrency-limited LLM calls + progress.
+  // With `retry`, only those indices are re-sent and merged back into the previous items.
+  const callLLM = useCallback(async (payloads: any[], maxParallel = 4, retry?: { items: BatchItem[]; indices: number[] }) => {
+    if (provider.requiresApiKey && !apiKey) throw new Error(`No API key set. Enter your ${provider.label} API key to use Send to GPT.`);
+    const settings = { provider: provider.id, baseUrl: controls.baseUrl, apiKey };
     const queue = payloads.map((p) => buildLLMMessages(p));
 
-    const results = new Array(queue.length).fill("");
-    setProgress({ total: queue.length, done: 0, ok: 0, fail: 0 });
-
-    let index = 0;
-    async function worker() {
-      while (index < queue.length) {
-        const myIndex = index++;
-        const messages = queue[myIndex];
-        try {
-          const result = await openAI.callOpenAI(messages, controls.model, apiKey);
-          results[myIndex] = result || "";
-          setProgress((p) => ({ ...p, done: p.done + 1, ok: p.ok + 1 }));
-        } catch (e) {
-          results[myIndex] = "";
-          setProgress((p) => ({ ...p, done: p.done + 1, fail: p.fail + 1 }));
-        }
-      }
+    const initial = retry ? resetBatchItems(retry.items, retry.indices) : createBatchItems(queue.length);
+    itemsRef.current = initial;
+    setItems(initial);
+
+    const controller = new AbortController();
+    const gate = createPauseGate();
+    abortRef.current = controller;
+    gateRef.current = gate;
+    setPaused(false);
+
+    const scheduler = createScheduler({ concurrency: maxParallel, ...rateLimits, onChange: setSchedulerState });
+    setSchedulerState(scheduler.state);
+
+    // A blocking budget holds every request to what is left of it, retries included; a corrective
+    // re-send it refuses is skipped and the item stays flagged (see generateChecked)
+    const price = findModelPrice(modelPrices, controls.model);
+    const spend = createSpendGuard(budget, usageCost(sumUsage(initial.map((item) => item.usage)), price) ?? 0);
+
+    const cacheEnabled = responseCache.enabled;
+    const structuredFields = normalizeOutputFields(outputFields);
+    const responseSchema = structuredFields.length ? { name: OUTPUT_SCHEMA_NAME, schema: outputJsonSchema(structuredFields) } : undefined;
+    const finished = await runBatch(
+      initial,
+      async (index, { onToken, onRetry, onUsage, onCached, onChecked, onFields, signal }) => {
+        // One request, answered from the cache when possible; corrective follow-ups go through here too
+        let usage: TokenUsage | undefined;
+        let allCached = true;
+        const send = async (messages: ChatMessage[]) => {
+          // A cache that can't be used (no SubtleCrypto over plain http, private mode, quota) just means sending the request
+          const key = cacheEnabled
+            ? await responseCacheKey({ provider: provider.id, baseUrl: controls.baseUrl, model: controls.model, responseSchema, messages }).catch(() => null)
+            : null;
+          if (key && !bypassCache) {
+            const hit = await getCachedResponse(key).catch(() => undefined);
+            if (hit) return hit.text;
+          }
+          const estimate = estimateBatchCost([messages], 1, outputTokens, price).cost;
+          spend.start(estimate);
+          allCached = false;
+          let reported: TokenUsage | undefined;
+          // Charged what the provider reported; a failed request that reported nothing costs nothing
+          const charge = (failed: boolean) => spend.finish(estimate, reported ? usageCost(reported, price) : failed ? 0 : null);
+          const reply = await llm.callLLMProvider(messages, controls.model, settings, {
+            stream: controls.stream,
+            responseSchema,
+            onToken,
+            onRetry,
+            onUsage: (requestUsage) => {
+              reported = requestUsage;
+              usage = sumUsage([usage, requestUsage]);
+              onUsage(usage);
+            },
+            signal,
+            scheduler,
+            estimatedTokens: estimateMessageTokens(messages) + outputTokens,
+          }).then(
+            (text) => {
+              charge(false);
+              return text;
+            },
+            (error) => {
+              charge(true);
+              throw error;
+            }
+          );
+          // Only replies that match the output fields are cached
+          if (structuredFields.length) parseStructuredOutput(reply, structuredFields);
+          if (key && reply) await putCachedResponse(key, reply, controls.model, reported).catch(() => undefined);
+          return reply;
+        };
+
+        const checked = await generateChecked(queue[index], outputConstraints, payloads[index], send, structuredFields);
+        if (allCached) onCached();
+        if (checked.fields) onFields(checked.fields);
+        onChecked(checked.violations, checked.repairs);
+        return checked.text;
+      },
+      { concurrency: maxParallel, onUpdate: publishItem, signal: controller.signal, gate, indices: retry?.indices, scheduler }
+    ).finally(() => {
+      setSchedulerState(null);
+      abortRef.current = null;
+      gateRef.current = null;
+      setPaused(false);
+    });
+
+    if (flushFrameRef.current !== null) {
+      cancelAnimationFrame(flushFrameRef.current);
+      flushFrameRef.current = null;
+    }
+    itemsRef.current = finished;
+    setItems(finished);
+    setBypassCache(false);
+    if (cacheEnabled) await evictResponses(responseCache.maxMegabytes).catch(() => undefined);
+    return finished;
+  }, [apiKey, buildLLMMessages, controls.model, controls.baseUrl, controls.stream, provider, llm, publishItem, rateLimits, outputTokens, modelPrices, budget, responseCache, bypassCache, outputConstraints, outputFields]);
+
+  // Current editor state as preset data
+  const currentPresetData = useMemo((): PresetData => ({
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    instructions,
+    sections,
+    rules,
+    outputTemplate: outputTemplate || undefined,
+    outputConstraints: hasOutputConstraints(outputConstraints) ? outputConstraints : undefined,
+    outputFields: outputFields.length ? outputFields : undefined,
+    defaults: {
+      model: controls.model,
+      seed: Number(controls.seed),
+      batch: Number(controls.batch),
+      concurrency: Number(controls.concurrency),
+      provider: controls.provider,
+      baseUrl: controls.baseUrl || undefined,
+      runMode: controls.runMode
     }
+  }), [instructions, sections, rules, outputTemplate, outputConstraints, outputFields, controls]);
+
+  // Load a restored preset revision into the editor
+  const restorePresetRevision = useCallback((data: PresetData) => {
+    applyPresetData(data);
+    setSuccess(`Restored a previous revision of ${presetName}`);
+    setTimeout(() => setSuccess(""), 3000);
+  }, [applyPresetData, presetName]);
+
+  // Store a run in history; failures here never affect the run itself
+  const recordRun = useCallback(async (record: RunRecord) => {
+    currentRunRef.current = record;
+    try {
+      await saveRun(record);
+      setHistoryRuns((runs) => [record, ...runs.filter((run) => run.id !== record.id)]);
+    } catch (e) {
+      console.warn("Run history save error:", e);
+    }
+  }, []);
 
-    const N = Math.max(1, Math.min(Number(maxParallel) || 1, 10)); // clamp 1..10
-    await Promise.all(Array.from({ length: N }, () => worker()));
-    return results;
-  }, [apiKey, buildLLMMessages, controls.model, openAI]);
+  // Fill the output template from each payload — no LLM call
+  const renderLocally = useCallback((payloads: any[]) => {
+    const rendered: BatchItem[] = payloads.map((payload, index) => {
+      const text = renderTemplate(outputTemplate, payload);
+      const violations = checkOutput(text, outputConstraints, payload);
+      return { index, text, status: "ok", attempts: 1, ...(violations.length ? { violations } : {}) };
+    });
+    itemsRef.current = rendered;
+    setItems(rendered);
+    return rendered;
+  }, [outputTemplate, outputConstraints]);
 
   // Save current UI back into the active preset
   const savePresetToDisk = useCallback(async () => {
-    const payload = {
-      instructions,
-      sections,
-      defaults: {
-        model: controls.model,
-        seed: Number(controls.seed),
-        batch: Number(controls.batch),
-        concurrency: Number(controls.concurrency)
-      }
-    };
-    return await putPreset(presetName, payload);
-  }, [instructions, sections, controls, presetName]);
+    return await putPreset(presetName, currentPresetData);
+  }, [currentPresetData, presetName]);
 
   // Save current preset
   const saveCurrentPreset = useCallback(async () => {
@@ -274,51 +543,89 @@ Do not invent values not present; resolve contradictions by omission only.`;
     }
   }, [savePresetToDisk, presetName]);
 
-  // Save as new preset
-  const saveAsNewPreset = useCallback(async () => {
-    if (!newPresetName.trim()) {
+  // Ask before replacing another preset: `attempt` is retried with overwrite once confirmed.
+  // Resolves null when the user declines.
+  const confirmOverwrite = useCallback(async <T,>(attempt: (overwrite: boolean) => Promise<T>): Promise<T | null> => {
+    try {
+      return await attempt(false);
+    } catch (error) {
+      if (!(error instanceof PresetExistsError)) throw error;
+      if (!window.confirm(`${error.message}. Overwrite it?`)) return null;
+      return await attempt(true);
+    }
+  }, []);
+
+  // Save as new preset, rename or duplicate, using the name typed in the preset selector
+  const submitPresetName = useCallback(async () => {
+    const name = newPresetName.trim();
+    if (!name || !presetNameAction) {
       return;
     }
     
     setIsSaving(true);
+    setError("");
     try {
-      const payload = {
-        instructions,
-        sections,
-        defaults: {
-          model: controls.model,
-          seed: Number(controls.seed),
-          batch: Number(controls.batch),
-          concurrency: Number(controls.concurrency)
-        }
-      };
-      
-      await putPreset(newPresetName.trim(), payload);
+      const savedName = await confirmOverwrite(async (overwrite) => {
+        if (presetNameAction === "rename") return renamePreset(presetName, name, overwrite);
+        if (presetNameAction === "duplicate") return duplicatePreset(presetName, name, overwrite);
+        const result = await putPreset(name, currentPresetData, { overwrite });
+        if (result.exists) throw new PresetExistsError(result.error);
+        if (!result.success) throw new Error(result.error || 'Failed to save preset');
+        return result.name || name;
+      });
+      if (savedName === null) return;
       
-      // Add to preset options if not already there
-      if (!presetOptions.includes(newPresetName.trim())) {
-        setPresetOptions([...presetOptions, newPresetName.trim()]);
-      }
+      // Refresh the preset list
+      setPresetOptions(await getAvailablePresets());
       
-      // Switch to the new preset
-      setPresetName(newPresetName.trim());
+      // Switch to the new / renamed preset
+      setPresetName(savedName);
       setNewPresetName("");
-      setIsEditingPresetName(false);
+      setPresetNameAction(null);
     } catch (error) {
       console.error('Failed to save preset:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save preset');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [newPresetName, presetNameAction, presetName, currentPresetData, confirmOverwrite, setPresetName]);
+
+  const startPresetAction = useCallback((action: "rename" | "duplicate") => {
+    setPresetNameAction(action);
+    setNewPresetName(action === "duplicate" ? `${presetName} copy` : presetName);
+  }, [presetName]);
+
+  // Delete the current preset after confirmation and switch to another one
+  const deleteCurrentPreset = useCallback(async () => {
+    if (!window.confirm(`Delete preset "${presetName}"? Its saved revisions are kept.`)) {
+      return;
+    }
+    
+    setIsSaving(true);
+    setError("");
+    try {
+      await deletePreset(presetName);
+      const availablePresets = await getAvailablePresets();
+      setPresetOptions(availablePresets);
+      setPresetName(availablePresets[0] || "default");
+      setSuccess(`Deleted preset ${presetName}`);
+      setTimeout(() => setSuccess(""), 3000);
+    } catch (error) {
+      console.error('Failed to delete preset:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete preset');
     } finally {
       setIsSaving(false);
     }
-  }, [newPresetName, instructions, sections, controls, presetOptions, setPresetName]);
+  }, [presetName, setPresetName]);
 
   // Handle preset name change
   const handlePresetNameChange = useCallback((value: string) => {
     if (value === "add-new") {
-      setIsEditingPresetName(true);
+      setPresetNameAction("new");
       setNewPresetName("");
     } else {
       setPresetName(value);
-      setIsEditingPresetName(false);
+      setPresetNameAction(null);
     }
   }, [setPresetName]);
 
@@ -347,11 +654,12 @@ Do not invent values not present; resolve contradictions by omission only.`;
     const placeholder = section.title === "Pre" ? "Add entries separated by commas or new lines" : "Add entries…";
     const canMoveUp = index > 0;
     const canMoveDown = index < sections.length - 1;
+    const pickCount = normalizePickCount(section.pickCount);
     
     return (
       <div 
         key={`section-${section.id}`} 
-        className="prompt-architect-section"
+        className={`prompt-architect-section ${section.isHidden ? 'is-library' : ''}`}
       >
         <div className="section-header-with-remove">
           <div className="section-title-container">
@@ -362,6 +670,56 @@ Do not invent values not present; resolve contradictions by omission only.`;
             />
           </div>
           <div className="section-actions">
+            <button
+              className="btn btn-outline btn-sm"
+              onClick={() => setImportTarget(importTarget === section.id ? null : section.id)}
+              title="Import entries from a CSV, TSV, text or JSON file"
+            >
+              Import…
+            </button>
+            <button
+              className={`btn btn-sm ${section.isHidden ? 'btn-primary' : 'btn-outline'}`}
+              onClick={() => handleSectionHiddenToggle(section.id)}
+              title={`Library only: leave out of the payload and draw it with __${section.title}__ in other lists`}
+            >
+              Library
+            </button>
+            <span className="pick-count" title="How many values to draw per prompt (min–max)">
+              <input
+                type="number"
+                min={0}
+                value={pickCount.min}
+                onChange={(e) => handleSectionPickCountChange(section.id, { ...pickCount, min: Number(e.target.value) })}
+              />
+              –
+              <input
+                type="number"
+                min={1}
+                value={pickCount.max}
+                onChange={(e) => handleSectionPickCountChange(section.id, { ...pickCount, max: Number(e.target.value) })}
+              />
+            </span>
+            {pickCount.max > 1 && (
+              <select
+                className="sampling-mode-select"
+                value={normalizeJoinStyle(section.joinStyle)}
+                onChange={(e) => handleSectionJoinStyleChange(section.id, e.target.value as JoinStyle)}
+                title="How several values appear in the payload"
+              >
+                <option value="comma">Comma list</option>
+                <option value="array">JSON array</option>
+              </select>
+            )}
+            <select
+              className="sampling-mode-select"
+              value={normalizeSamplingMode(section.samplingMode)}
+              onChange={(e) => handleSectionSamplingModeChange(section.id, e.target.value as SamplingMode)}
+              title="How this section draws across a batch"
+            >
+              <option value="random">Random</option>
+              <option value="balanced">Balanced</option>
+              <option value="noRepeat">No repeat</option>
+            </select>
             <div className="section-order-controls">
               <button
                 className="btn-order btn-order-up"
@@ -391,6 +749,13 @@ Do not invent values not present; resolve contradictions by omission only.`;
             )}
           </div>
         </div>
+        {importTarget === section.id && (
+          <ImportDialog
+            sections={[section]}
+            onApply={applyImportedLists}
+            onClose={() => setImportTarget(null)}
+          />
+        )}
         <BoxEditor
           key={`boxeditor-${section.id}`}
           value={section.list} 
@@ -403,21 +768,23 @@ Do not invent values not present; resolve contradictions by omission only.`;
         />
       </div>
     );
-  }, [sections, handleSectionTitleChange, handleSectionListChange, handleSectionSelectionsChange, handleSectionRandomToggle, handleRemoveSection, moveSectionUp, moveSectionDown]);
+  }, [sections, importTarget, applyImportedLists, handleSectionTitleChange, handleSectionListChange, handleSectionSelectionsChange, handleSectionRandomToggle, handleSectionSamplingModeChange, handleSectionPickCountChange, handleSectionJoinStyleChange, handleSectionHiddenToggle, handleRemoveSection, moveSectionUp, moveSectionDown]);
 
   const onRun = useCallback(async () => {
     setBusy(true);
     setError("");
     setWarn("");
-    setProgress({ total: 0, done: 0, ok: 0, fail: 0 });
+    setItems([]);
 
     try {
-      if (!apiKey) throw new Error("Enter your OpenAI API key to generate prompts.");
+      if (isLocalRun && !outputTemplate.trim()) throw new Error("Add an output template to render prompts locally.");
+      if (!isLocalRun && provider.requiresApiKey && !apiKey) throw new Error(`Enter your ${provider.label} API key to generate prompts.`);
 
       // Guardrails (non-blocking)
       const warnings = [];
       if ((Number(controls.batch) || 0) > 250) warnings.push("Large batch: consider ≤ 250 for cost/rate safety.");
       if ((Number(controls.concurrency) || 0) > 8) warnings.push("High concurrency: consider ≤ 8 to avoid rate limits.");
+      if (ruleProblems.length) warnings.push(`Rules: ${ruleProblems.length} problem(s) — affected fields may be left out.`);
       if (warnings.length) setWarn(warnings.join(" "));
 
       // Build payloads (BEFORE saving preset, to avoid any chance of state being reset)
@@ -435,14 +802,19 @@ Do not invent values not present; resolve contradictions by omission only.`;
         });
       }
 
-      // Build payloads using pure random mode (independent draws per section)
-      const payloads: any[] = [];
-      for (let i = 0; i < batchSize; i++) {
-        payloads.push(buildOne(i, s));
+      // Build payloads from per-section plans (random, balanced or no-repeat), applying rules
+      const payloads: any[] = buildPayloads(sections, { seedBase: s, batchSize, rules });
+
+      // Budget cap, checked against the exact messages about to be sent
+      if (!isLocalRun) {
+        const estimate = estimateBatchCost(payloads.map(buildLLMMessages), payloads.length, outputTokens, findModelPrice(modelPrices, controls.model));
+        const overBudget = checkBudget(estimate, budget);
+        const summary = `Estimated cost ${formatCost(estimate.cost ?? 0)} is over the ${formatCost(budget.limit)} budget`;
+        if (overBudget === "block") throw new Error(`${summary}. Reduce the batch or raise the budget in Prices & budget.`);
+        if (overBudget === "confirm" && !window.confirm(`${summary}. Send anyway?`)) return;
       }
 
       setLastPayloads(payloads);
-      setProgress((p) => ({ ...p, total: payloads.length }));
 
       // Save preset AFTER payloads are computed
       const saveResult = await savePresetToDisk();
@@ -450,18 +822,139 @@ Do not invent values not present; resolve contradictions by omission only.`;
         console.warn("Preset save error:", saveResult.error);
       }
 
-      // Call LLM
-      const results = await callLLM(payloads, Number(controls.concurrency) || 4);
-      setPrompts(results);
+      // Render locally from the output template, or call the LLM
+      const finished = isLocalRun
+        ? renderLocally(payloads)
+        : await callLLM(payloads, Number(controls.concurrency) || 4);
+      // Failed and cancelled items stay out of the output; see the failure list
+      setPrompts(collectPrompts(finished));
+
+      recordRun({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        presetName,
+        instructions,
+        sections,
+        rules,
+        outputTemplate: outputTemplate || undefined,
+        outputConstraints: hasOutputConstraints(outputConstraints) ? outputConstraints : undefined,
+        outputFields: isLocalRun || !outputFields.length ? undefined : outputFields,
+        runMode: controls.runMode,
+        provider: provider.id,
+        baseUrl: controls.baseUrl || undefined,
+        model: controls.model,
+        seed: s,
+        concurrency: Number(controls.concurrency) || 4,
+        payloads,
+        messages: isLocalRun ? [] : payloads.map(buildLLMMessages),
+        ...runResults(finished, findModelPrice(modelPrices, controls.model)),
+      });
+    } catch (e: any) {
+      setError(e.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  }, [apiKey, provider, controls, isLocalRun, presetName, instructions, outputTemplate, outputConstraints, outputFields, sections, rules, ruleProblems, outputTokens, modelPrices, budget, savePresetToDisk, callLLM, renderLocally, buildLLMMessages, recordRun, setPrompts]);
+
+  // Re-send only the failed payloads, merging results back into their positions
+  const retryFailed = useCallback(async () => {
+    const indices = items.filter((item) => item.status === "failed").map((item) => item.index);
+    if (!indices.length || indices.some((index) => !lastPayloads[index])) return;
+
+    setBusy(true);
+    setError("");
+    try {
+      // The budget covers the whole run: what it already cost plus the re-sends
+      const price = findModelPrice(modelPrices, controls.model);
+      const spent = usageCost(sumUsage(items.map((item) => item.usage)), price) ?? 0;
+      const estimate = estimateBatchCost(indices.map((index) => buildLLMMessages(lastPayloads[index])), indices.length, outputTokens, price);
+      const overBudget = checkBudget({ ...estimate, cost: estimate.cost === null ? null : spent + estimate.cost }, budget);
+      const summary = `Spent ${formatCost(spent)} plus an estimated ${formatCost(estimate.cost ?? 0)} to retry is over the ${formatCost(budget.limit)} budget`;
+      if (overBudget === "block") throw new Error(`${summary}. Raise the budget in Prices & budget to retry.`);
+      if (overBudget === "confirm" && !window.confirm(`${summary}. Retry anyway?`)) return;
+
+      const finished = await callLLM(lastPayloads, Number(controls.concurrency) || 4, { items, indices });
+      setPrompts(collectPrompts(finished));
+
+      const run = currentRunRef.current;
+      if (run && run.payloads === lastPayloads) recordRun({ ...run, ...runResults(finished, findModelPrice(modelPrices, run.model)) });
     } catch (e: any) {
       setError(e.message || String(e));
     } finally {
       setBusy(false);
     }
-  }, [apiKey, controls, sections, savePresetToDisk, callLLM, setPrompts]);
+  }, [items, lastPayloads, callLLM, buildLLMMessages, controls.concurrency, controls.model, outputTokens, modelPrices, budget, recordRun, setPrompts]);
+
+  // Load run history when the panel is opened
+  useEffect(() => {
+    if (!showHistory) return;
+    listRuns()
+      .then((runs) => {
+        setHistoryRuns(runs);
+        setHistoryError("");
+      })
+      .catch((e) => setHistoryError(`Could not load run history: ${e?.message || e}`));
+  }, [showHistory]);
+
+  // Show a past run's results; failed items can be retried against its payloads
+  const openRunResults = useCallback((run: RunRecord) => {
+    const restored = runToBatchItems(run);
+    currentRunRef.current = run;
+    itemsRef.current = restored;
+    setItems(restored);
+    setLastPayloads(run.payloads);
+    setPrompts(collectPrompts(restored));
+    setError("");
+    setWarn("");
+  }, [setPrompts]);
+
+  // Load a past run's configuration into the editor (the selected preset is left as is)
+  const restoreRunConfig = useCallback((run: RunRecord) => {
+    applyPresetData(runToPresetData(run));
+    setSuccess(`Restored configuration from ${new Date(run.timestamp).toLocaleString()}`);
+    setTimeout(() => setSuccess(""), 3000);
+  }, [applyPresetData]);
+
+  const removeRun = useCallback(async (id: string) => {
+    try {
+      await deleteRun(id);
+      setHistoryRuns((runs) => runs.filter((run) => run.id !== id));
+      if (currentRunRef.current?.id === id) currentRunRef.current = null;
+    } catch (e: any) {
+      setHistoryError(`Could not delete run: ${e?.message || e}`);
+    }
+  }, []);
+
+  const cancelRun = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
 
-  const downloadTxt = useCallback(() => {
-    const blob = new Blob([prompts.join("\n")], { type: "text/plain" });
+  const togglePause = useCallback(() => {
+    const gate = gateRef.current;
+    if (!gate) return;
+    if (gate.paused) {
+      gate.resume();
+    } else {
+      gate.pause();
+    }
+    setPaused(gate.paused);
+  }, []);
+
+  // Export results in the chosen format, with each prompt's payload where available
+  const exportRows = useMemo(() => buildExportRows(items, lastPayloads, prompts || []), [items, lastPayloads, prompts]);
+
+  const downloadExport = useCallback(() => {
+    const format = getExportFormat(exportFormat);
+    const run = currentRunRef.current;
+    const content = exportPrompts(format.id, exportRows, {
+      preset: run?.presetName ?? presetName,
+      model: (run ? run.runMode : controls.runMode) === "local" ? null : (run?.model ?? controls.model),
+      seed: run?.seed ?? Number(controls.seed),
+      // Columns of the sections the prompts were drawn from; hidden library sections never reach a payload
+      fields: (run?.sections ?? sections).filter((section) => !section.isHidden).map((section) => section.title),
+      outputFields: normalizeOutputFields(run ? run.outputFields : outputFields).map((field) => field.name),
+    });
+    const blob = new Blob([content], { type: format.mimeType });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
@@ -476,14 +969,15 @@ Do not invent values not present; resolve contradictions by omission only.`;
     const seconds = String(now.getSeconds()).padStart(2, '0');
     const dateTime = `${year}_${month}_${day}_${hours}_${minutes}_${seconds}`;
     
-    // Create filename: {count}_{preset}_prompts_{datetime}.txt
-    const promptCount = prompts.length;
-    const filename = `${promptCount}_${presetName}_prompts_${dateTime}.txt`;
+    // Create filename: {count}_{preset}_prompts_{datetime}.{ext}
+    const promptCount = exportRows.length;
+    const filename = `${promptCount}_${presetName}_prompts_${dateTime}.${format.extension}`;
     
     a.download = filename;
     a.click();
     URL.revokeObjectURL(url);
-  }, [prompts, presetName]);
+    setShowExport(false);
+  }, [exportFormat, exportRows, presetName, controls.runMode, controls.model, controls.seed, sections, outputFields]);
 
   const copyToClipboard = useCallback(() => {
     const content = (prompts || []).join("\n");
@@ -518,7 +1012,7 @@ Do not invent values not present; resolve contradictions by omission only.`;
       <PresetSelector
         presetName={presetName}
         presetOptions={presetOptions}
-        isEditingPresetName={isEditingPresetName}
+        nameAction={presetNameAction}
         newPresetName={newPresetName}
         isSaving={isSaving}
         saveSuccess={saveSuccess}
@@ -526,12 +1020,16 @@ Do not invent values not present; resolve contradictions by omission only.`;
         error={error}
         onPresetNameChange={handlePresetNameChange}
         onNewPresetNameChange={setNewPresetName}
-        onSaveAsNewPreset={saveAsNewPreset}
-        onCancelNewPreset={() => {
-          setIsEditingPresetName(false);
+        onSubmitPresetName={submitPresetName}
+        onCancelPresetName={() => {
+          setPresetNameAction(null);
           setNewPresetName("");
         }}
         onSaveCurrentPreset={saveCurrentPreset}
+        onStartPresetAction={startPresetAction}
+        onDeletePreset={deleteCurrentPreset}
+        currentPresetData={currentPresetData}
+        onRestoreRevision={restorePresetRevision}
       />
 
       <hr className="section-divider" />
@@ -565,7 +1063,9 @@ Do not invent values not present; resolve contradictions by omission only.`;
           }}
         />
         <div className="muted" style={{ marginTop: '6px', fontSize: '11px' }}>
-          Loaded from <code>/src/presets/{presetName}.json</code> (saved back on Send).
+          {presetStorage === "server"
+            ? <>Loaded from the preset server as <code>{presetName}.json</code> (saved back on Send).</>
+            : <>Loaded from the presets bundled with the app or saved in this browser (saved back on Send).</>}
         </div>
       </div>
 
@@ -582,6 +1082,67 @@ Do not invent values not present; resolve contradictions by omission only.`;
         >
           + Add Section
         </button>
+        <button
+          className="btn btn-outline"
+          onClick={() => setImportTarget(importTarget === ALL_SECTIONS ? null : ALL_SECTIONS)}
+          title="Import lists for several sections at once, matched by section title"
+        >
+          Import lists…
+        </button>
+      </div>
+      {importTarget === ALL_SECTIONS && (
+        <ImportDialog
+          sections={sections}
+          onApply={applyImportedLists}
+          onClose={() => setImportTarget(null)}
+        />
+      )}
+
+      {/* Constraint Rules */}
+      <div className="prompt-architect-section">
+        <h3>Rules</h3>
+        <RulesEditor
+          rules={rules}
+          setRules={setRules}
+          sectionTitles={sections.map(section => section.title).filter(Boolean)}
+          problems={ruleProblems}
+        />
+      </div>
+
+      {/* Output Template */}
+      <div className="prompt-architect-section">
+        <h3>Output Template</h3>
+        <textarea
+          className="mono"
+          value={outputTemplate}
+          onChange={(e) => setOutputTemplate(e.target.value)}
+          rows={3}
+          placeholder="A cinematic {{Composition}} of {{Pre}} in {{Environment}} at {{Time of Day}}.[[ {{Weather / Atmosphere}}.]] Shot on a {{Lens}}, with {{Post}}"
+          style={{ width: '100%' }}
+        />
+        <div className="muted" style={{ marginTop: '6px', fontSize: '11px' }}>
+          Used by the <em>Render locally</em> run mode. <code>{'{{Field}}'}</code> inserts a section value,
+          {' '}<code>[[ … ]]</code> is dropped when a field inside it is missing,
+          {' '}<code>{'{{#if Field}} … {{else}} … {{/if}}'}</code> branches on a field.
+        </div>
+      </div>
+
+      {/* Output Fields */}
+      <div className="prompt-architect-section">
+        <h3>Output Fields</h3>
+        <OutputFieldsEditor
+          fields={outputFields}
+          setFields={setOutputFields}
+        />
+      </div>
+
+      {/* Output Constraints */}
+      <div className="prompt-architect-section">
+        <h3>Output Constraints</h3>
+        <OutputConstraintsEditor
+          constraints={outputConstraints}
+          setConstraints={setOutputConstraints}
+        />
       </div>
 
       <hr className="section-divider thick" />
@@ -598,53 +1159,101 @@ Do not invent values not present; resolve contradictions by omission only.`;
           </button>
         </div>
         <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
-          {/* First row: Model and API Key */}
-          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px', alignItems: 'start' }}>
-            <label>
-              <div style={{ fontSize: '12px', marginBottom: '4px' }}>Model</div>
-              <select
-                value={controls.model}
-                onChange={(e) => updateControl('model', e.target.value)}
-                style={{ width: '100%' }}
-              >
-                <option>gpt-4o-mini</option>
-                <option>gpt-4o</option>
-                <option>gpt-4.1-mini</option>
-              </select>
-            </label>
+          <label>
+            <div style={{ fontSize: '12px', marginBottom: '4px' }}>Run mode</div>
+            <select
+              value={controls.runMode}
+              onChange={(e) => updateControl('runMode', e.target.value as RunMode)}
+              style={{ width: '100%' }}
+            >
+              <option value="llm">Send to LLM</option>
+              <option value="local">Render locally (output template, no network)</option>
+            </select>
+          </label>
+
+          {!isLocalRun && (
+            <>
+            {/* First row: Provider and Base URL */}
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px', alignItems: 'start' }}>
+              <label>
+                <div style={{ fontSize: '12px', marginBottom: '4px' }}>Provider</div>
+                <select
+                  value={provider.id}
+                  onChange={(e) => {
+                    const next = getProvider(e.target.value);
+                    updateControl('provider', next.id);
+                    updateControl('model', next.models[0]);
+                  }}
+                  style={{ width: '100%' }}
+                >
+                  {Object.values(PROVIDERS).map((p) => (
+                    <option key={p.id} value={p.id}>{p.label}</option>
+                  ))}
+                </select>
+              </label>
+
+              <label>
+                <div style={{ fontSize: '12px', marginBottom: '4px' }}>Base URL</div>
+                <input
+                  type="text"
+                  value={controls.baseUrl}
+                  onChange={(e) => updateControl('baseUrl', e.target.value)}
+                  placeholder={provider.defaultBaseUrl}
+                  style={{ width: '100%' }}
+                />
+              </label>
+            </div>
 
-            <label>
-              <div style={{ fontSize: '12px', marginBottom: '4px' }}>API Key</div>
-              <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+            {/* Second row: Model and API Key */}
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px', alignItems: 'start' }}>
+              <label>
+                <div style={{ fontSize: '12px', marginBottom: '4px' }}>Model</div>
                 <input
-                  type="password"
-                  value={apiKey}
-                  onChange={(e) => setApiKey(e.target.value)}
-                  placeholder="sk-..."
-                  style={{ 
-                    flex: 1,
-                    padding: '6px 8px',
-                    border: '1px solid var(--border)',
-                    borderRadius: '4px',
-                    fontSize: '12px',
-                    fontFamily: 'monospace'
-                  }}
+                  type="text"
+                  list="pa-model-options"
+                  value={controls.model}
+                  onChange={(e) => updateControl('model', e.target.value)}
+                  style={{ width: '100%' }}
                 />
-                {apiKey && (
-                  <button
-                    className="btn btn-outline btn-xs"
-                    onClick={() => setApiKey("")}
-                    title="Clear API key"
-                    style={{ padding: '4px 6px', fontSize: '10px' }}
-                  >
-                    ×
-                  </button>
-                )}
-              </div>
-            </label>
-          </div>
+                <datalist id="pa-model-options">
+                  {provider.models.map((m) => <option key={m} value={m} />)}
+                </datalist>
+              </label>
+
+              <label>
+                <div style={{ fontSize: '12px', marginBottom: '4px' }}>API Key</div>
+                <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+                  <input
+                    type="password"
+                    value={apiKey}
+                    onChange={(e) => setApiKey(e.target.value)}
+                    placeholder={provider.requiresApiKey ? "sk-..." : "optional"}
+                    style={{ 
+                      flex: 1,
+                      padding: '6px 8px',
+                      border: '1px solid var(--border)',
+                      borderRadius: '4px',
+                      fontSize: '12px',
+                      fontFamily: 'monospace'
+                    }}
+                  />
+                  {apiKey && (
+                    <button
+                      className="btn btn-outline btn-xs"
+                      onClick={() => setApiKey("")}
+                      title="Clear API key"
+                      style={{ padding: '4px 6px', fontSize: '10px' }}
+                    >
+                      ×
+                    </button>
+                  )}
+                </div>
+              </label>
+            </div>
+            </>
+          )}
 
-          {/* Second row: Batch, Concurrency, and Seed */}
+          {/* Third row: Batch, Concurrency, and Seed */}
           <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '12px', alignItems: 'start' }}>
             <label>
               <div style={{ fontSize: '12px', marginBottom: '4px' }}>Batch</div>
@@ -683,14 +1292,101 @@ Do not invent values not present; resolve contradictions by omission only.`;
             </label>
           </div>
 
-          <div style={{ display: 'flex', justifyContent: 'center', marginTop: '12px' }}>
+          {!isLocalRun && (
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '12px', alignItems: 'end' }}>
+              <label>
+                <div style={{ fontSize: '12px', marginBottom: '4px' }}>Requests / min</div>
+                <input
+                  type="number"
+                  min={0}
+                  value={rateLimits.requestsPerMinute}
+                  onChange={(e) => setRateLimits({ ...rateLimits, requestsPerMinute: Math.max(0, Number(e.target.value) || 0) })}
+                  title="Spread requests to stay under this rate (0 = no limit)"
+                  style={{ width: '100%' }}
+                />
+              </label>
+              <label>
+                <div style={{ fontSize: '12px', marginBottom: '4px' }}>Tokens / min</div>
+                <input
+                  type="number"
+                  min={0}
+                  value={rateLimits.tokensPerMinute}
+                  onChange={(e) => setRateLimits({ ...rateLimits, tokensPerMinute: Math.max(0, Number(e.target.value) || 0) })}
+                  title="Estimated input + output tokens per minute (0 = no limit)"
+                  style={{ width: '100%' }}
+                />
+              </label>
+              <label style={{ display: 'flex', gap: '6px', alignItems: 'center', fontSize: '12px' }}>
+                <input
+                  type="checkbox"
+                  checked={rateLimits.adaptive}
+                  onChange={(e) => setRateLimits({ ...rateLimits, adaptive: e.target.checked })}
+                />
+                Adapt concurrency to rate limits
+              </label>
+            </div>
+          )}
+
+          {costEstimate && (
+            <CostEstimate
+              estimate={costEstimate}
+              model={controls.model}
+              prices={modelPrices}
+              setPrices={setModelPrices}
+              outputTokens={outputTokens}
+              setOutputTokens={setOutputTokens}
+              budget={budget}
+              setBudget={setBudget}
+            />
+          )}
+
+          {!isLocalRun && (
+            <label style={{ display: 'flex', gap: '6px', alignItems: 'center', fontSize: '12px' }}>
+              <input
+                type="checkbox"
+                checked={controls.stream}
+                onChange={(e) => updateControl('stream', e.target.checked)}
+              />
+              Stream tokens (show each prompt as it is written)
+            </label>
+          )}
+
+          {!isLocalRun && (
+            <ResponseCacheControls
+              settings={responseCache}
+              setSettings={setResponseCache}
+              bypass={bypassCache}
+              setBypass={setBypassCache}
+              busy={busy}
+            />
+          )}
+
+          <div style={{ display: 'flex', justifyContent: 'center', gap: '8px', marginTop: '12px' }}>
             <button
               className={`btn btn-primary btn-lg ${busy ? 'disabled' : ''}`}
               onClick={onRun}
               disabled={busy}
             >
-              {busy ? "Sending…" : "Send to GPT"}
+              {busy ? (paused ? "Paused" : "Sending…") : (isLocalRun ? "Render locally" : "Send to GPT")}
             </button>
+            {busy && (
+              <>
+                <button
+                  className="btn btn-outline btn-lg"
+                  onClick={togglePause}
+                  title={paused ? "Resume sending queued prompts" : "Stop sending new prompts; in-flight ones finish"}
+                >
+                  {paused ? "Resume" : "Pause"}
+                </button>
+                <button
+                  className="btn btn-secondary btn-lg"
+                  onClick={cancelRun}
+                  title="Stop the batch and keep the prompts that already finished"
+                >
+                  Cancel
+                </button>
+              </>
+            )}
           </div>
         </div>
 
@@ -713,6 +1409,21 @@ Do not invent values not present; resolve contradictions by omission only.`;
                 <progress value={progress.done} max={progress.total} style={{ width: '100%' }} />
                 <div className="muted" style={{ marginTop: '4px', fontSize: '12px' }}>
                   {progress.done}/{progress.total} • ok {progress.ok} • fail {progress.fail}
+                  {progress.cancelled > 0 && <> • cancelled {progress.cancelled}</>}
+                  {progress.cached > 0 && <> • cached {progress.cached}</>}
+                  {progress.violations > 0 && <span style={{ color: '#f59e0b' }}> • {progress.violations} break output constraints</span>}
+                  {schedulerState && schedulerState.concurrency < (Number(controls.concurrency) || 4) && (
+                    <> • concurrency lowered to {schedulerState.concurrency}</>
+                  )}
+                  {schedulerState && schedulerState.waitingUntil > 0 && (
+                    <> • waiting for rate limit until {new Date(schedulerState.waitingUntil).toLocaleTimeString()}</>
+                  )}
+                  {progress.usage.promptTokens + progress.usage.completionTokens > 0 && (
+                    <>
+                      {' '}• {formatTokens(progress.usage.promptTokens)} in / {formatTokens(progress.usage.completionTokens)} out tokens
+                      {runCost !== null && <> • {formatCost(runCost)}</>}
+                    </>
+                  )}
                 </div>
               </>
             )}
@@ -726,8 +1437,7 @@ Do not invent values not present; resolve contradictions by omission only.`;
             value={
               lastPayloads.length
                 ? JSON.stringify(lastPayloads, null, 2)
-                : "(No payload yet — click 'Send to GPT' to generate and preview the exact JSON that gets sent.)"
-            }
+                : previewSample}
             rows={8}
             style={{ 
               marginTop: '16px',
@@ -776,12 +1486,39 @@ Do not invent values not present; resolve contradictions by omission only.`;
             </button>
             <button
               className="btn btn-secondary btn-sm"
-              onClick={downloadTxt}
+              onClick={() => setShowExport(!showExport)}
             >
-              Download .txt
+              Export…
             </button>
           </div>
         </div>
+        {showExport && (
+          <ExportDialog
+            format={normalizeExportFormat(exportFormat)}
+            setFormat={setExportFormat}
+            count={exportRows.length}
+            onExport={downloadExport}
+            onClose={() => setShowExport(false)}
+          />
+        )}
+        {busy && <BatchResults items={items} forbiddenTerms={outputConstraints.forbiddenTerms} />}
+        {!busy && (
+          <FailedItems
+            items={items}
+            canRetry={items.length === lastPayloads.length}
+            onRetryFailed={retryFailed}
+          />
+        )}
+        {!busy && <FidelityPanel items={items} reports={fidelityReports} />}
+        {!busy && <StructuredResults items={items} fieldNames={normalizeOutputFields(outputFields).map((field) => field.name)} />}
+        {!busy && flaggedItems.length > 0 && (
+          <div className="flagged-items">
+            <div style={{ fontSize: '12px', fontWeight: 600 }}>
+              {flaggedItems.length} {flaggedItems.length === 1 ? 'prompt breaks' : 'prompts break'} output constraints
+            </div>
+            <BatchResults items={flaggedItems} forbiddenTerms={outputConstraints.forbiddenTerms} />
+          </div>
+        )}
         <textarea
           ref={resultsRef}
           className="mono"
@@ -802,10 +1539,36 @@ Do not invent values not present; resolve contradictions by omission only.`;
           }}
         />
         <div className="muted" style={{ marginTop: '16px', fontSize: '12px' }}>
-          Presets load from and save to <code>/src/presets/*.json</code>. API key is entered above and stored locally in your browser.
+          {presetStorage === "server"
+            ? <>Presets load from and save to the preset server (<code>/src/presets/*.json</code> in development).</>
+            : <>Presets you save are kept in this browser's local storage.</>} API key is entered above and stored locally in your browser.
           Each prompt is a separate API call, sent with your chosen concurrency limit.
         </div>
       </div>
+
+      {/* Run History */}
+      <div className="prompt-architect-section">
+        <div className="section-header">
+          <h3>History</h3>
+          <div className="section-actions">
+            <button
+              className="btn btn-outline btn-sm"
+              onClick={() => setShowHistory(!showHistory)}
+            >
+              {showHistory ? 'Hide' : 'Show'}
+            </button>
+          </div>
+        </div>
+        {showHistory && (
+          <HistoryPanel
+            runs={historyRuns}
+            error={historyError}
+            onOpenResults={openRunResults}
+            onRestoreConfig={restoreRunConfig}
+            onDelete={removeRun}
+          />
+        )}
+      </div>
     </section>
   );
 }
@@ -0,0 +1,67 @@
+import React from 'react';
+import { BatchItem } from '../services/batchRunner';
+import { findForbiddenTerms } from '../utils/outputConstraints';
+
+interface BatchResultsProps {
+  items: BatchItem[];
+  // Marked in the text of items that break an output constraint
+  forbiddenTerms?: string[];
+}
+
+const STATUS_LABELS: Record<BatchItem['status'], string> = {
+  pending: 'queued',
+  streaming: 'streaming',
+  retrying: 'retrying',
+  ok: 'ok',
+  failed: 'failed',
+  cancelled: 'cancelled',
+};
+
+// Text with each forbidden term wrapped in <mark>
+function highlightTerms(text: string, terms: string[]) {
+  const matches = findForbiddenTerms(text, terms);
+  if (!matches.length) return text;
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  matches.forEach((match, i) => {
+    parts.push(text.slice(last, match.start), <mark key={i} className="forbidden-term">{text.slice(match.start, match.end)}</mark>);
+    last = match.end;
+  });
+  parts.push(text.slice(last));
+  return parts;
+}
+
+export const BatchResults: React.FC<BatchResultsProps> = React.memo(({ items, forbiddenTerms = [] }) => {
+  if (items.length === 0) return null;
+
+  return (
+    <ol className="batch-items">
+      {items.map((item) => (
+        <li key={item.index} className={`batch-item status-${item.status}${item.violations ? ' has-violations' : ''}`}>
+          <span className={`status-badge status-${item.status}`}>
+            #{item.index + 1} {STATUS_LABELS[item.status]}
+          </span>
+          <span className="batch-item-text mono">
+            {item.violations ? highlightTerms(item.text, forbiddenTerms) : item.text || (item.status === 'pending' ? '…' : '')}
+            {item.error && item.status !== 'ok' && (
+              <span className="batch-item-error">
+                {item.error} (attempt {item.attempts})
+              </span>
+            )}
+            {item.status === 'ok' && item.violations && (
+              <span className="batch-item-violations">
+                {item.violations.map((violation) => violation.message).join(' ')}
+                {item.repairs ? ` (after ${item.repairs} repair${item.repairs === 1 ? '' : 's'})` : ''}
+              </span>
+            )}
+            {item.status === 'ok' && !item.violations && item.repairs && (
+              <span className="batch-item-repaired">
+                Passed after {item.repairs} repair{item.repairs === 1 ? '' : 's'}
+              </span>
+            )}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+});
@@ -1,5 +1,7 @@
 import React, { useRef } from 'react';
-import { toList } from '../utils/random';
+import { setEntryWeight, toList, toWeightedList } from '../utils/random';
+
+const WEIGHT_STEP = 0.5;
 
 interface BoxEditorProps {
   value: string;
@@ -20,7 +22,7 @@ export const BoxEditor: React.FC<BoxEditorProps> = React.memo(({
   setRandomOn, 
   placeholder 
 }) => {
-  const options = toList(value);
+  const options = toWeightedList(value);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   function toggle(opt: string) {
@@ -44,6 +46,10 @@ export const BoxEditor: React.FC<BoxEditorProps> = React.memo(({
     }
   }, [value, selected, setSelected]);
 
+  function adjustWeight(opt: string, weight: number, delta: number) {
+    setValue(setEntryWeight(value, opt, Math.max(0, weight + delta)));
+  }
+
   function toggleRandom() {
     const willBeOn = !randomOn;
     setRandomOn(willBeOn);
@@ -72,17 +78,36 @@ export const BoxEditor: React.FC<BoxEditorProps> = React.memo(({
         >
           Random
         </button>
-        {options.map((opt) => {
+        {options.map(({ value: opt, weight }) => {
           const active = selected.includes(opt);
           return (
-            <button
-              key={opt}
-              onClick={() => toggle(opt)}
-              className={`btn btn-sm ${active ? 'btn-primary' : 'btn-secondary'}`}
-              title={opt}
-            >
-              {opt}
-            </button>
+            <span key={opt} className="chip-group">
+              <button
+                onClick={() => toggle(opt)}
+                className={`btn btn-sm ${active ? 'btn-primary' : 'btn-secondary'}`}
+                title={weight === 1 ? opt : `${opt} (weight ${weight})`}
+              >
+                {opt}
+                {weight !== 1 && <span className="chip-weight">×{weight}</span>}
+              </button>
+              <span className="chip-weight-controls">
+                <button
+                  className="btn-weight"
+                  onClick={() => adjustWeight(opt, weight, -WEIGHT_STEP)}
+                  disabled={weight <= 0}
+                  title="Draw this option less often"
+                >
+                  −
+                </button>
+                <button
+                  className="btn-weight"
+                  onClick={() => adjustWeight(opt, weight, WEIGHT_STEP)}
+                  title="Draw this option more often"
+                >
+                  +
+                </button>
+              </span>
+            </span>
           );
         })}
       </div>
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Budget, BudgetMode, checkBudget, CostEstimate as Estimate, formatCost, formatTokens, ModelPrice } from '../utils/costEstimate';
+
+interface CostEstimateProps {
+  estimate: Estimate;
+  model: string;
+  prices: ModelPrice[];
+  setPrices: (prices: ModelPrice[]) => void;
+  outputTokens: number;
+  setOutputTokens: (tokens: number) => void;
+  budget: Budget;
+  setBudget: (budget: Budget) => void;
+}
+
+export const CostEstimate: React.FC<CostEstimateProps> = React.memo(({
+  estimate,
+  model,
+  prices,
+  setPrices,
+  outputTokens,
+  setOutputTokens,
+  budget,
+  setBudget
+}) => {
+  const [showSettings, setShowSettings] = useState(false);
+  const overBudget = checkBudget(estimate, budget) !== 'ok';
+  const unpriced = Boolean(model.trim()) && !estimate.price;
+
+  function updatePrice(index: number, patch: Partial<ModelPrice>) {
+    setPrices(prices.map((price, i) => (i === index ? { ...price, ...patch } : price)));
+  }
+
+  return (
+    <div className="cost-estimate">
+      <div className="cost-estimate-summary">
+        <span>
+          ≈ {formatTokens(estimate.inputTokens)} input + {formatTokens(estimate.outputTokens)} output tokens
+          {' • '}
+          {estimate.cost === null ? (
+            <span className="muted">no price for {model || 'this model'}</span>
+          ) : (
+            <strong style={{ color: overBudget ? '#ef4444' : undefined }}>{formatCost(estimate.cost)}</strong>
+          )}
+          {budget.limit > 0 && <span className="muted"> (budget {formatCost(budget.limit)})</span>}
+        </span>
+        <button className="btn btn-outline btn-xs" onClick={() => setShowSettings((v) => !v)}>
+          {showSettings ? 'Hide prices' : 'Prices & budget…'}
+        </button>
+      </div>
+
+      {showSettings && (
+        <div className="cost-settings">
+          <div className="muted">Prices in USD per million tokens. Models are matched exactly, then by the longest listed prefix.</div>
+          {prices.map((price, index) => (
+            <div key={index} className="cost-price-row">
+              <input
+                type="text"
+                value={price.model}
+                onChange={(e) => updatePrice(index, { model: e.target.value })}
+                placeholder="model"
+              />
+              <label>
+                in
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={price.input}
+                  onChange={(e) => updatePrice(index, { input: Math.max(0, Number(e.target.value) || 0) })}
+                />
+              </label>
+              <label>
+                out
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={price.output}
+                  onChange={(e) => updatePrice(index, { output: Math.max(0, Number(e.target.value) || 0) })}
+                />
+              </label>
+              <button
+                className="btn btn-outline btn-xs"
+                onClick={() => setPrices(prices.filter((_, i) => i !== index))}
+                title="Remove price"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <div className="section-actions">
+            <button className="btn btn-outline btn-xs" onClick={() => setPrices([...prices, { model: unpriced ? model : '', input: 0, output: 0 }])}>
+              {unpriced ? `Add price for ${model}` : 'Add price'}
+            </button>
+          </div>
+
+          <div className="cost-price-row">
+            <label>
+              Expected output tokens per prompt
+              <input
+                type="number"
+                min={0}
+                value={outputTokens}
+                onChange={(e) => setOutputTokens(Math.max(0, Number(e.target.value) || 0))}
+              />
+            </label>
+          </div>
+          <div className="cost-price-row">
+            <label>
+              Budget per run (USD, 0 = off)
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={budget.limit}
+                onChange={(e) => setBudget({ ...budget, limit: Math.max(0, Number(e.target.value) || 0) })}
+              />
+            </label>
+            <select
+              value={budget.mode}
+              onChange={(e) => setBudget({ ...budget, mode: e.target.value as BudgetMode })}
+              disabled={!(budget.limit > 0)}
+            >
+              <option value="confirm">Ask before going over</option>
+              <option value="block">Block runs over budget</option>
+            </select>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,45 @@
+import React from 'react';
+import { EXPORT_FORMATS, ExportFormat } from '../utils/exporters';
+
+interface ExportDialogProps {
+  format: ExportFormat;
+  setFormat: (format: ExportFormat) => void;
+  count: number;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+export const ExportDialog: React.FC<ExportDialogProps> = React.memo(({
+  format,
+  setFormat,
+  count,
+  onExport,
+  onClose
+}) => {
+  return (
+    <div className="export-dialog">
+      {EXPORT_FORMATS.map((option) => (
+        <label key={option.id} className="export-option">
+          <input
+            type="radio"
+            name="export-format"
+            checked={format === option.id}
+            onChange={() => setFormat(option.id)}
+          />
+          <span>
+            <strong>{option.label}</strong> <span className="muted">.{option.extension}</span>
+            <div className="muted">{option.description}</div>
+          </span>
+        </label>
+      ))}
+      <div className="section-actions">
+        <button className="btn btn-primary btn-sm" onClick={onExport} disabled={count === 0}>
+          Download {count} {count === 1 ? 'prompt' : 'prompts'}
+        </button>
+        <button className="btn btn-outline btn-sm" onClick={onClose}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+});
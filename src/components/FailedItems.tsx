@@ -0,0 +1,42 @@
+import React from 'react';
+import { BatchItem } from '../services/batchRunner';
+
+interface FailedItemsProps {
+  items: BatchItem[];
+  canRetry: boolean;
+  onRetryFailed: () => void;
+}
+
+export const FailedItems: React.FC<FailedItemsProps> = React.memo(({ items, canRetry, onRetryFailed }) => {
+  const failed = items.filter((item) => item.status === 'failed');
+  if (failed.length === 0) return null;
+
+  return (
+    <div className="failed-items">
+      <div className="section-header">
+        <div style={{ fontSize: '12px', fontWeight: 600 }}>
+          {failed.length} failed {failed.length === 1 ? 'prompt' : 'prompts'}
+        </div>
+        <button
+          className="btn btn-outline btn-sm"
+          onClick={onRetryFailed}
+          disabled={!canRetry}
+          title={canRetry ? 'Re-send only the failed payloads' : 'The payloads for this run are no longer available'}
+        >
+          Retry failed
+        </button>
+      </div>
+      <ol className="batch-items">
+        {failed.map((item) => (
+          <li key={item.index} className="batch-item status-failed">
+            <span className="status-badge status-failed">#{item.index + 1}</span>
+            <span className="batch-item-text">
+              {item.error || 'Unknown error'}
+              <span className="muted"> — {item.attempts} {item.attempts === 1 ? 'attempt' : 'attempts'}</span>
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+});
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { BatchItem } from '../services/batchRunner';
+import { averageFidelity, FidelityReport } from '../utils/fidelity';
+
+interface FidelityPanelProps {
+  items: BatchItem[];
+  // Report per item index (null where the item has no output)
+  reports: (FidelityReport | null)[];
+}
+
+// Scores below this are counted as low in the summary
+const LOW_SCORE = 70;
+
+function scoreClass(score: number) {
+  return score >= 90 ? 'score-high' : score >= LOW_SCORE ? 'score-medium' : 'score-low';
+}
+
+export const FidelityPanel: React.FC<FidelityPanelProps> = React.memo(({ items, reports }) => {
+  const [showDetails, setShowDetails] = useState(false);
+  const average = averageFidelity(reports);
+  if (average === null) return null;
+  const low = reports.filter((report) => report && report.score < LOW_SCORE).length;
+
+  return (
+    <div className="fidelity-panel">
+      <div className="section-header">
+        <div style={{ fontSize: '12px' }}>
+          Payload fidelity <strong className={scoreClass(average)}>{average}/100</strong> average
+          {low > 0 && <span className="muted"> • {low} below {LOW_SCORE}</span>}
+        </div>
+        <button className="btn btn-outline btn-xs" onClick={() => setShowDetails((v) => !v)}>
+          {showDetails ? 'Hide details' : 'Details…'}
+        </button>
+      </div>
+
+      {showDetails && (
+        <ol className="batch-items">
+          {items.map((item) => {
+            const report = reports[item.index];
+            if (!report) return null;
+            const issues = report.fields.filter((entry) => entry.status !== 'verbatim');
+            return (
+              <li key={item.index} className="batch-item">
+                <span className={`status-badge ${scoreClass(report.score)}`}>#{item.index + 1} {report.score}</span>
+                <span className="batch-item-text">
+                  {item.text}
+                  {(issues.length > 0 || report.foreign.length > 0) && (
+                    <span className="fidelity-issues">
+                      {issues.map((entry, i) => (
+                        <span key={i} className={`fidelity-tag fidelity-${entry.status}`} title={entry.value}>
+                          {entry.field} {entry.status}{entry.status === 'duplicated' ? ` ×${entry.occurrences}` : ''}
+                        </span>
+                      ))}
+                      {report.foreign.map((entry, i) => (
+                        <span key={`foreign-${i}`} className="fidelity-tag fidelity-foreign">
+                          {entry.field} not in payload: {entry.value}
+                        </span>
+                      ))}
+                    </span>
+                  )}
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+});
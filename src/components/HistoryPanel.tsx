@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import { RunRecord, searchRuns, SpendSummary, summarizeSpend } from '../services/historyStore';
+import { formatCost, formatTokens } from '../utils/costEstimate';
+
+interface HistoryPanelProps {
+  runs: RunRecord[];
+  error?: string;
+  onOpenResults: (run: RunRecord) => void;
+  onRestoreConfig: (run: RunRecord) => void;
+  onDelete: (id: string) => void;
+}
+
+function formatTimestamp(timestamp: number) {
+  return new Date(timestamp).toLocaleString();
+}
+
+const SpendTable: React.FC<{ title: string; rows: SpendSummary[] }> = ({ title, rows }) => (
+  <table className="spend-table">
+    <thead>
+      <tr>
+        <th>{title}</th>
+        <th>Runs</th>
+        <th>Input</th>
+        <th>Output</th>
+        <th>Cost</th>
+      </tr>
+    </thead>
+    <tbody>
+      {rows.map((row) => (
+        <tr key={row.key}>
+          <td>{row.key}</td>
+          <td>{row.runs}</td>
+          <td>{formatTokens(row.usage.promptTokens)}</td>
+          <td>{formatTokens(row.usage.completionTokens)}</td>
+          <td>
+            {formatCost(row.cost)}
+            {row.unpricedRuns > 0 && <span className="muted" title="Runs whose model had no price"> +{row.unpricedRuns} unpriced</span>}
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = React.memo(({
+  runs,
+  error,
+  onOpenResults,
+  onRestoreConfig,
+  onDelete
+}) => {
+  const [query, setQuery] = useState('');
+  const [showSpend, setShowSpend] = useState(false);
+  const visible = useMemo(() => searchRuns(runs, query), [runs, query]);
+  // Spend follows the search, e.g. "HWS14" for one preset's runs
+  const spend = useMemo(
+    () => (showSpend ? { presets: summarizeSpend(visible, 'presetName'), models: summarizeSpend(visible, 'model') } : null),
+    [showSpend, visible]
+  );
+
+  return (
+    <div>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search preset, model, instructions or prompts…"
+        style={{ width: '100%', marginBottom: '8px' }}
+      />
+      <div className="section-actions" style={{ marginBottom: '8px' }}>
+        <button className="btn btn-outline btn-sm" onClick={() => setShowSpend((v) => !v)}>
+          {showSpend ? 'Hide spend' : 'Spend by preset and model'}
+        </button>
+      </div>
+      {spend && (
+        spend.presets.length === 0 ? (
+          <div className="muted" style={{ fontSize: '12px', marginBottom: '8px' }}>No runs with reported token usage yet.</div>
+        ) : (
+          <div className="spend-summary">
+            <SpendTable title="Preset" rows={spend.presets} />
+            <SpendTable title="Model" rows={spend.models} />
+          </div>
+        )
+      )}
+      {error && (
+        <div style={{ color: 'var(--error)', fontSize: '12px', marginBottom: '8px' }}>{error}</div>
+      )}
+      {visible.length === 0 ? (
+        <div className="muted" style={{ fontSize: '12px' }}>
+          {runs.length === 0 ? 'No runs recorded yet.' : 'No runs match your search.'}
+        </div>
+      ) : (
+        <ol className="history-list">
+          {visible.map((run) => {
+            const ok = run.outputs.filter(Boolean).length;
+            return (
+              <li key={run.id} className="history-item">
+                <div className="history-item-summary">
+                  <strong>{run.presetName}</strong>
+                  <span className="muted">
+                    {formatTimestamp(run.timestamp)} • {run.runMode === 'local' ? 'local render' : `${run.provider} / ${run.model}`}
+                    {' '}• seed {run.seed} • {ok}/{run.payloads.length} ok
+                    {run.failures.length > 0 && ` • ${run.failures.length} failed`}
+                    {run.usage && ` • ${formatTokens(run.usage.promptTokens)} in / ${formatTokens(run.usage.completionTokens)} out tokens`}
+                    {typeof run.cost === 'number' && ` • ${formatCost(run.cost)}`}
+                  </span>
+                </div>
+                <div className="section-actions">
+                  <button className="btn btn-outline btn-sm" onClick={() => onOpenResults(run)}>
+                    Open results
+                  </button>
+                  <button
+                    className="btn btn-secondary btn-sm"
+                    onClick={() => onRestoreConfig(run)}
+                    title="Load this run's instructions, sections and settings into the editor"
+                  >
+                    Restore config
+                  </button>
+                  <button className="btn-remove" onClick={() => onDelete(run.id)} title="Delete run">
+                    ×
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+});
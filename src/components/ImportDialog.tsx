@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from 'react';
+import type { SectionData } from '../services/presetService';
+import {
+  ImportedColumn,
+  ImportMode,
+  matchColumnsToSections,
+  parseImportFile,
+  planListImport
+} from '../utils/importers';
+
+interface ImportDialogProps {
+  // Sections the import may write to: one for a section import, all for a preset import
+  sections: SectionData[];
+  onApply: (lists: { id: string; list: string }[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 8;
+
+function previewValues(values: string[]) {
+  const shown = values.slice(0, PREVIEW_LIMIT).join(', ');
+  return values.length > PREVIEW_LIMIT ? `${shown}, … (+${values.length - PREVIEW_LIMIT})` : shown;
+}
+
+export const ImportDialog: React.FC<ImportDialogProps> = React.memo(({
+  sections,
+  onApply,
+  onClose
+}) => {
+  const [fileName, setFileName] = useState('');
+  const [columns, setColumns] = useState<ImportedColumn[]>([]);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [error, setError] = useState('');
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      setColumns(parseImportFile(file.name, await file.text()));
+      setError('');
+    } catch (e: any) {
+      setColumns([]);
+      setError(e.message || String(e));
+    }
+  }
+
+  const { matches, unmatched } = useMemo(() => matchColumnsToSections(columns, sections), [columns, sections]);
+  const plans = useMemo(
+    () => matches.map(({ section, column }) => ({ section, plan: planListImport(section.list, column.entries, mode) })),
+    [matches, mode]
+  );
+  const changed = plans.filter(({ section, plan }) => plan.list !== section.list);
+
+  const target = sections.length === 1 ? `"${sections[0].title}"` : 'this preset';
+
+  return (
+    <div className="import-dialog">
+      <div className="import-controls">
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,.json,text/csv,text/tab-separated-values,text/plain,application/json"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+        <select value={mode} onChange={(e) => setMode(e.target.value as ImportMode)}>
+          <option value="merge">Merge (add new entries)</option>
+          <option value="replace">Replace list</option>
+        </select>
+      </div>
+      <div className="muted">
+        Import into {target}: CSV/TSV with one column per section title, a text file with one entry per line,
+        or a JSON array. Duplicates are skipped the same way the list editor dedupes entries.
+      </div>
+
+      {error && <div style={{ color: 'var(--error)' }}>{error}</div>}
+
+      {fileName && !error && (
+        <div className="import-preview">
+          {plans.length === 0 && <div className="muted">No columns in {fileName} match {target}.</div>}
+          {plans.map(({ section, plan }) => (
+            <div key={section.id} className="import-preview-row">
+              <strong>{section.title}</strong>
+              <span className="import-added">+{plan.added.length} new</span>
+              {plan.duplicates.length > 0 && <span className="muted">{plan.duplicates.length} duplicate(s) skipped</span>}
+              {plan.removed.length > 0 && <span className="import-removed">−{plan.removed.length} removed</span>}
+              {plan.added.length > 0 && <div className="muted">{previewValues(plan.added)}</div>}
+              {plan.removed.length > 0 && <div className="import-removed">{previewValues(plan.removed)}</div>}
+            </div>
+          ))}
+          {unmatched.length > 0 && (
+            <div className="muted">
+              Ignored: {unmatched.map((c) => c.name ?? '(unnamed list)').join(', ')}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="section-actions">
+        <button
+          className="btn btn-primary btn-sm"
+          onClick={() => onApply(changed.map(({ section, plan }) => ({ id: section.id, list: plan.list })))}
+          disabled={changed.length === 0}
+        >
+          Import
+        </button>
+        <button className="btn btn-outline btn-sm" onClick={onClose}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,107 @@
+import React from 'react';
+import { OutputConstraints } from '../utils/outputConstraints';
+
+interface OutputConstraintsEditorProps {
+  constraints: OutputConstraints;
+  setConstraints: (constraints: OutputConstraints) => void;
+}
+
+const splitTerms = (text: string) => text.split(',').map((s) => s.trim()).filter(Boolean);
+
+// Empty number inputs clear the constraint
+const toCount = (value: string) => (value.trim() === '' ? undefined : Math.max(0, Math.floor(Number(value)) || 0));
+
+export const OutputConstraintsEditor: React.FC<OutputConstraintsEditorProps> = React.memo(({
+  constraints,
+  setConstraints
+}) => {
+  function update(patch: Partial<OutputConstraints>) {
+    setConstraints({ ...constraints, ...patch });
+  }
+
+  return (
+    <div className="output-constraints">
+      <div className="output-constraints-row">
+        <label>
+          Min words
+          <input
+            type="number"
+            min={0}
+            value={constraints.minWords ?? ''}
+            onChange={(e) => update({ minWords: toCount(e.target.value) })}
+          />
+        </label>
+        <label>
+          Max words
+          <input
+            type="number"
+            min={0}
+            value={constraints.maxWords ?? ''}
+            onChange={(e) => update({ maxWords: toCount(e.target.value) })}
+          />
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={Boolean(constraints.singleLine)}
+            onChange={(e) => update({ singleLine: e.target.checked || undefined })}
+          />
+          Single line
+        </label>
+      </div>
+
+      <label>
+        <div>Forbidden terms</div>
+        <input
+          key={`terms-${(constraints.forbiddenTerms || []).join(',')}`}
+          type="text"
+          defaultValue={(constraints.forbiddenTerms || []).join(', ')}
+          onBlur={(e) => update({ forbiddenTerms: splitTerms(e.target.value) })}
+          placeholder="ethereal, dreamlike, evok*"
+          style={{ width: '100%' }}
+        />
+      </label>
+
+      <div className="output-constraints-row">
+        <label>
+          <div>Must start with</div>
+          <input
+            type="text"
+            className="mono"
+            value={constraints.requiredPrefix || ''}
+            onChange={(e) => update({ requiredPrefix: e.target.value || undefined })}
+            placeholder="A cinematic {{Composition}} of *"
+          />
+        </label>
+        <label>
+          <div>Must end with</div>
+          <input
+            type="text"
+            className="mono"
+            value={constraints.requiredSuffix || ''}
+            onChange={(e) => update({ requiredSuffix: e.target.value || undefined })}
+            placeholder="Shot on a {{Lens}}, with {{Post}}"
+          />
+        </label>
+      </div>
+
+      <div className="output-constraints-row">
+        <label title="Re-send a failing prompt with a corrective follow-up up to this many times (0 = only flag it)">
+          Repair attempts
+          <input
+            type="number"
+            min={0}
+            max={5}
+            value={constraints.repairAttempts ?? 0}
+            onChange={(e) => update({ repairAttempts: toCount(e.target.value) || undefined })}
+          />
+        </label>
+      </div>
+
+      <div className="muted" style={{ fontSize: '11px' }}>
+        Every result is checked and violations are highlighted. Patterns insert section values with <code>{'{{Field}}'}</code>;
+        {' '}<code>*</code> matches any text. Forbidden terms match whole words; <code>evok*</code> also matches longer words.
+      </div>
+    </div>
+  );
+});
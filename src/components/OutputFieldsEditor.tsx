@@ -0,0 +1,70 @@
+import React from 'react';
+import { OutputField, SUGGESTED_OUTPUT_FIELDS } from '../utils/structuredOutput';
+
+interface OutputFieldsEditorProps {
+  fields: OutputField[];
+  setFields: (fields: OutputField[]) => void;
+}
+
+export const OutputFieldsEditor: React.FC<OutputFieldsEditorProps> = React.memo(({
+  fields,
+  setFields
+}) => {
+  const enabled = fields.length > 0;
+
+  function updateField(index: number, patch: Partial<OutputField>) {
+    setFields(fields.map((field, i) => (i === index ? { ...field, ...patch } : field)));
+  }
+
+  return (
+    <div className="output-fields">
+      <label style={{ display: 'flex', gap: '6px', alignItems: 'center', fontSize: '12px' }}>
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setFields(e.target.checked ? SUGGESTED_OUTPUT_FIELDS : [])}
+        />
+        Structured output (JSON with several fields per prompt)
+      </label>
+
+      {enabled && (
+        <>
+          {fields.map((field, index) => (
+            <div key={index} className="output-field-row">
+              <input
+                type="text"
+                className="mono"
+                value={field.name}
+                onChange={(e) => updateField(index, { name: e.target.value })}
+                placeholder="field name"
+              />
+              <input
+                type="text"
+                value={field.description || ''}
+                onChange={(e) => updateField(index, { description: e.target.value || undefined })}
+                placeholder="What the model should write in this field"
+              />
+              <button
+                className="btn btn-outline btn-xs"
+                onClick={() => setFields(fields.filter((_, i) => i !== index))}
+                disabled={fields.length === 1}
+                title="Remove field"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <div className="section-actions">
+            <button className="btn btn-outline btn-xs" onClick={() => setFields([...fields, { name: '' }])}>
+              Add field
+            </button>
+          </div>
+          <div className="muted" style={{ fontSize: '11px' }}>
+            Replies are requested as JSON (a response schema, or a tool call for Anthropic) and rejected when a field is
+            missing. The first field is the prompt; the others get their own columns in Results, exports and history.
+          </div>
+        </>
+      )}
+    </div>
+  );
+});
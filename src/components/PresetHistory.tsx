@@ -0,0 +1,123 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  getPresetRevision,
+  listPresetRevisions,
+  PresetData,
+  PresetRevision,
+  restorePresetRevision
+} from '../services/presetService';
+import { collapseUnchanged, diffLines } from '../utils/textDiff';
+
+interface PresetHistoryProps {
+  presetName: string;
+  // Current editor state, diffed against the selected revision
+  currentData: PresetData;
+  onRestore: (data: PresetData) => void;
+}
+
+const formatJson = (data: unknown) => JSON.stringify(data, null, 2);
+
+export const PresetHistory: React.FC<PresetHistoryProps> = React.memo(({
+  presetName,
+  currentData,
+  onRestore
+}) => {
+  const [revisions, setRevisions] = useState<PresetRevision[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [revision, setRevision] = useState<PresetData | null>(null);
+  const [error, setError] = useState('');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    setSelectedId('');
+    setRevision(null);
+    listPresetRevisions(presetName)
+      .then((list) => {
+        setRevisions(list);
+        setError('');
+      })
+      .catch((e) => setError(`Could not load revisions: ${e.message || e}`));
+  }, [presetName]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    getPresetRevision(presetName, selectedId)
+      .then((data) => {
+        setRevision(data);
+        setError('');
+      })
+      .catch((e) => setError(`Could not load revision: ${e.message || e}`));
+  }, [presetName, selectedId]);
+
+  const diff = useMemo(
+    () => (revision ? collapseUnchanged(diffLines(formatJson(revision), formatJson(currentData))) : []),
+    [revision, currentData]
+  );
+
+  async function restore() {
+    setIsRestoring(true);
+    try {
+      const data = await restorePresetRevision(presetName, selectedId);
+      onRestore(data);
+      setRevisions(await listPresetRevisions(presetName));
+    } catch (e: any) {
+      setError(`Could not restore revision: ${e.message || e}`);
+    } finally {
+      setIsRestoring(false);
+    }
+  }
+
+  return (
+    <div className="preset-history">
+      {error && <div style={{ color: '#ef4444' }}>{error}</div>}
+      {revisions.length === 0 ? (
+        <div className="muted">No saved revisions of {presetName} yet.</div>
+      ) : (
+        <div className="preset-history-body">
+          <ol className="preset-revisions">
+            {revisions.map((rev) => (
+              <li key={rev.id}>
+                <button
+                  className={`btn btn-sm ${rev.id === selectedId ? 'btn-primary' : 'btn-outline'}`}
+                  onClick={() => setSelectedId(rev.id)}
+                >
+                  {new Date(rev.timestamp).toLocaleString()}
+                </button>
+              </li>
+            ))}
+          </ol>
+          <div className="preset-diff">
+            {!revision && <div className="muted">Select a revision to compare it with the editor.</div>}
+            {revision && (
+              <>
+                <div className="section-header">
+                  <span className="muted">
+                    <span className="diff-removed">− revision</span> / <span className="diff-added">+ editor</span>
+                  </span>
+                  <button className="btn btn-secondary btn-sm" onClick={restore} disabled={isRestoring}>
+                    {isRestoring ? 'Restoring...' : 'Restore this revision'}
+                  </button>
+                </div>
+                {diff.length === 0 || diff.every((line) => line === null) ? (
+                  <div className="muted">Identical to the editor.</div>
+                ) : (
+                  <pre className="mono diff-lines">
+                    {diff.map((line, index) =>
+                      line === null ? (
+                        <div key={index} className="muted">…</div>
+                      ) : (
+                        <div key={index} className={`diff-${line.type}`}>
+                          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '− ' : '  '}{line.text}
+                        </div>
+                      )
+                    )}
+                  </pre>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
@@ -1,9 +1,20 @@
-import React from 'react';
+import React, { useState } from 'react';
+import type { PresetData } from '../services/presetService';
+import { PresetHistory } from './PresetHistory';
+
+// What the preset name input is for, while it is shown
+export type PresetNameAction = 'new' | 'rename' | 'duplicate';
+
+const NAME_ACTION_LABELS: Record<PresetNameAction, string> = {
+  new: 'Save',
+  rename: 'Rename',
+  duplicate: 'Duplicate',
+};
 
 interface PresetSelectorProps {
   presetName: string;
   presetOptions: string[];
-  isEditingPresetName: boolean;
+  nameAction: PresetNameAction | null;
   newPresetName: string;
   isSaving: boolean;
   saveSuccess?: boolean;
@@ -11,15 +22,20 @@ interface PresetSelectorProps {
   error?: string;
   onPresetNameChange: (value: string) => void;
   onNewPresetNameChange: (value: string) => void;
-  onSaveAsNewPreset: () => void;
-  onCancelNewPreset: () => void;
+  onSubmitPresetName: () => void;
+  onCancelPresetName: () => void;
   onSaveCurrentPreset: () => void;
+  onStartPresetAction: (action: 'rename' | 'duplicate') => void;
+  onDeletePreset: () => void;
+  // Revision history: the editor state to diff against, and where restored data goes
+  currentPresetData: PresetData;
+  onRestoreRevision: (data: PresetData) => void;
 }
 
 export const PresetSelector: React.FC<PresetSelectorProps> = React.memo(({
   presetName,
   presetOptions,
-  isEditingPresetName,
+  nameAction,
   newPresetName,
   isSaving,
   saveSuccess,
@@ -27,10 +43,16 @@ export const PresetSelector: React.FC<PresetSelectorProps> = React.memo(({
   error,
   onPresetNameChange,
   onNewPresetNameChange,
-  onSaveAsNewPreset,
-  onCancelNewPreset,
-  onSaveCurrentPreset
+  onSubmitPresetName,
+  onCancelPresetName,
+  onSaveCurrentPreset,
+  onStartPresetAction,
+  onDeletePreset,
+  currentPresetData,
+  onRestoreRevision
 }) => {
+  const [showHistory, setShowHistory] = useState(false);
+
   return (
     <div className="section sticky-header">
       <div className="section-header">
@@ -40,26 +62,26 @@ export const PresetSelector: React.FC<PresetSelectorProps> = React.memo(({
         <div className="section-actions" style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
           <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
             <label className="muted">Preset</label>
-            {isEditingPresetName ? (
+            {nameAction ? (
               <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
                 <input
                   type="text"
                   value={newPresetName}
                   onChange={(e) => onNewPresetNameChange(e.target.value)}
-                  placeholder="Enter preset name"
+                  placeholder={nameAction === 'new' ? 'Enter preset name' : `New name for ${presetName}`}
                   style={{ padding: '4px 8px', fontSize: '12px', border: '1px solid #ccc', borderRadius: '4px' }}
-                  onKeyPress={(e) => e.key === 'Enter' && onSaveAsNewPreset()}
+                  onKeyPress={(e) => e.key === 'Enter' && onSubmitPresetName()}
                 />
                 <button
                   className="btn btn-primary btn-sm"
-                  onClick={onSaveAsNewPreset}
+                  onClick={onSubmitPresetName}
                   disabled={isSaving}
                 >
-                  {isSaving ? 'Saving...' : 'Save'}
+                  {isSaving ? 'Saving...' : NAME_ACTION_LABELS[nameAction]}
                 </button>
                 <button
                   className="btn btn-outline btn-sm"
-                  onClick={onCancelNewPreset}
+                  onClick={onCancelPresetName}
                 >
                   Cancel
                 </button>
@@ -81,8 +103,44 @@ export const PresetSelector: React.FC<PresetSelectorProps> = React.memo(({
           >
             {isSaving ? 'Saving...' : 'Save'}
           </button>
+          <button
+            className={`btn btn-sm ${showHistory ? 'btn-primary' : 'btn-outline'}`}
+            onClick={() => setShowHistory(!showHistory)}
+            title="Saved revisions of this preset"
+          >
+            History
+          </button>
+          <button
+            className="btn btn-outline btn-sm"
+            onClick={() => onStartPresetAction('rename')}
+            disabled={isSaving || !!nameAction}
+          >
+            Rename
+          </button>
+          <button
+            className="btn btn-outline btn-sm"
+            onClick={() => onStartPresetAction('duplicate')}
+            disabled={isSaving || !!nameAction}
+          >
+            Duplicate
+          </button>
+          <button
+            className="btn btn-outline btn-sm"
+            onClick={onDeletePreset}
+            disabled={isSaving || !!nameAction}
+            title="Delete this preset (its saved revisions are kept)"
+          >
+            Delete
+          </button>
         </div>
       </div>
+      {showHistory && (
+        <PresetHistory
+          presetName={presetName}
+          currentData={currentPresetData}
+          onRestore={onRestoreRevision}
+        />
+      )}
       {(success || error) && (
         <div style={{ marginTop: '8px', padding: '8px 12px', borderRadius: '4px', fontSize: '12px' }}>
           {success && (
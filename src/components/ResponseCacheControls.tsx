@@ -0,0 +1,125 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  clearResponseCache,
+  evictResponses,
+  getResponseCacheStats,
+  ResponseCacheSettings,
+  ResponseCacheStats
+} from '../services/responseCache';
+
+interface ResponseCacheControlsProps {
+  settings: ResponseCacheSettings;
+  setSettings: (settings: ResponseCacheSettings) => void;
+  // Send every request this run, refreshing the cached responses
+  bypass: boolean;
+  setBypass: (bypass: boolean) => void;
+  busy: boolean;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${bytes} B`;
+}
+
+export const ResponseCacheControls: React.FC<ResponseCacheControlsProps> = React.memo(({
+  settings,
+  setSettings,
+  bypass,
+  setBypass,
+  busy
+}) => {
+  const [showManager, setShowManager] = useState(false);
+  const [stats, setStats] = useState<ResponseCacheStats | null>(null);
+  const [status, setStatus] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      setStats(await getResponseCacheStats());
+    } catch (e: any) {
+      setStatus(e?.message || String(e));
+    }
+  }, []);
+
+  // Stats change with every run, so reload them whenever the manager opens or a run ends
+  useEffect(() => {
+    if (showManager && !busy) refresh();
+  }, [showManager, busy, refresh]);
+
+  async function trim() {
+    try {
+      const removed = await evictResponses(settings.maxMegabytes);
+      setStatus(removed ? `Evicted ${removed} least recently used response${removed === 1 ? '' : 's'}.` : 'Cache is within its limit.');
+      await refresh();
+    } catch (e: any) {
+      setStatus(e?.message || String(e));
+    }
+  }
+
+  async function clear() {
+    if (!window.confirm('Delete every cached response?')) return;
+    try {
+      await clearResponseCache();
+      setStatus('Cache cleared.');
+      await refresh();
+    } catch (e: any) {
+      setStatus(e?.message || String(e));
+    }
+  }
+
+  return (
+    <div className="response-cache">
+      <div className="response-cache-summary">
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+          />
+          Cache responses
+        </label>
+        <label title="Send every request this run and refresh the cached responses">
+          <input
+            type="checkbox"
+            checked={bypass}
+            onChange={(e) => setBypass(e.target.checked)}
+            disabled={!settings.enabled}
+          />
+          Bypass cache for this run
+        </label>
+        <button className="btn btn-outline btn-xs" onClick={() => setShowManager((v) => !v)}>
+          {showManager ? 'Hide cache' : 'Manage cache…'}
+        </button>
+      </div>
+
+      {showManager && (
+        <div className="response-cache-manager">
+          <div className="muted">
+            Responses are keyed by provider, model, sampling settings and the exact messages, and kept in this browser.
+          </div>
+          <div>
+            {stats ? `${stats.entries} cached response${stats.entries === 1 ? '' : 's'} • ${formatBytes(stats.bytes)}` : 'Loading…'}
+          </div>
+          <div className="response-cache-row">
+            <label>
+              Max size (MB)
+              <input
+                type="number"
+                min={1}
+                value={settings.maxMegabytes}
+                onChange={(e) => setSettings({ ...settings, maxMegabytes: Math.max(1, Number(e.target.value) || 1) })}
+              />
+            </label>
+            <button className="btn btn-outline btn-xs" onClick={trim} disabled={busy}>
+              Evict to limit
+            </button>
+            <button className="btn btn-outline btn-xs" onClick={clear} disabled={busy || !stats?.entries}>
+              Clear cache
+            </button>
+          </div>
+          {status && <div className="muted">{status}</div>}
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,98 @@
+import React from 'react';
+import { ConstraintRule, RuleEffect } from '../utils/constraints';
+
+interface RulesEditorProps {
+  rules: ConstraintRule[];
+  setRules: (rules: ConstraintRule[]) => void;
+  sectionTitles: string[];
+  problems: string[];
+}
+
+const splitValues = (text: string) => text.split(',').map((s) => s.trim()).filter(Boolean);
+
+export const RulesEditor: React.FC<RulesEditorProps> = React.memo(({
+  rules,
+  setRules,
+  sectionTitles,
+  problems
+}) => {
+  function updateRule(id: string, patch: Partial<ConstraintRule>) {
+    setRules(rules.map((rule) => (rule.id === id ? { ...rule, ...patch } : rule)));
+  }
+
+  function addRule() {
+    setRules([
+      ...rules,
+      {
+        id: crypto.randomUUID(),
+        whenSection: sectionTitles[0] || '',
+        whenValues: [],
+        thenSection: sectionTitles[1] || sectionTitles[0] || '',
+        effect: 'excludes',
+        values: [],
+      },
+    ]);
+  }
+
+  const sectionSelect = (value: string, onChange: (title: string) => void) => (
+    <select value={value} onChange={(e) => onChange(e.target.value)}>
+      {!sectionTitles.includes(value) && <option value={value}>{value || '(none)'}</option>}
+      {sectionTitles.map((title) => <option key={title} value={title}>{title}</option>)}
+    </select>
+  );
+
+  return (
+    <div>
+      {rules.length === 0 && (
+        <div className="muted" style={{ fontSize: '12px', marginBottom: '8px' }}>
+          No rules. Rules stop contradictory combinations, e.g. night with harsh light.
+        </div>
+      )}
+      {rules.map((rule) => (
+        <div key={rule.id} className="rule-row">
+          <span className="muted">If</span>
+          {sectionSelect(rule.whenSection, (whenSection) => updateRule(rule.id, { whenSection }))}
+          <span className="muted">is</span>
+          <input
+            key={`when-${rule.id}-${rule.whenValues.join(',')}`}
+            type="text"
+            defaultValue={rule.whenValues.join(', ')}
+            onBlur={(e) => updateRule(rule.id, { whenValues: splitValues(e.target.value) })}
+            placeholder="night, dusk"
+          />
+          <span className="muted">then</span>
+          {sectionSelect(rule.thenSection, (thenSection) => updateRule(rule.id, { thenSection }))}
+          <select
+            value={rule.effect}
+            onChange={(e) => updateRule(rule.id, { effect: e.target.value as RuleEffect })}
+          >
+            <option value="excludes">excludes</option>
+            <option value="requires">requires one of</option>
+          </select>
+          <input
+            key={`values-${rule.id}-${rule.values.join(',')}`}
+            type="text"
+            defaultValue={rule.values.join(', ')}
+            onBlur={(e) => updateRule(rule.id, { values: splitValues(e.target.value) })}
+            placeholder="Harsh light, Bright"
+          />
+          <button
+            className="btn-remove"
+            onClick={() => setRules(rules.filter((r) => r.id !== rule.id))}
+            title="Remove rule"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      {problems.length > 0 && (
+        <ul className="rule-problems">
+          {problems.map((problem) => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+      <button className="btn btn-outline btn-sm" onClick={addRule} disabled={sectionTitles.length === 0}>
+        + Add Rule
+      </button>
+    </div>
+  );
+});
@@ -0,0 +1,41 @@
+import React from 'react';
+import { BatchItem } from '../services/batchRunner';
+
+interface StructuredResultsProps {
+  items: BatchItem[];
+  // Column order from the preset; fields only some replies carry are appended
+  fieldNames: string[];
+}
+
+export const StructuredResults: React.FC<StructuredResultsProps> = React.memo(({ items, fieldNames }) => {
+  const rows = items.filter((item) => item.status === 'ok' && item.fields);
+  if (rows.length === 0) return null;
+
+  const columns = [...fieldNames];
+  rows.forEach((item) => {
+    Object.keys(item.fields!).forEach((name) => {
+      if (!columns.includes(name)) columns.push(name);
+    });
+  });
+
+  return (
+    <div className="structured-results">
+      <table>
+        <thead>
+          <tr>
+            <th>#</th>
+            {columns.map((name) => <th key={name}>{name}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((item) => (
+            <tr key={item.index}>
+              <td className="muted">{item.index + 1}</td>
+              {columns.map((name) => <td key={name}>{item.fields![name] ?? ''}</td>)}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+});
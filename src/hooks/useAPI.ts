@@ -1,4 +1,6 @@
 import { useState, useCallback } from 'react';
+import { callProvider, CallProviderOptions } from '../services/llmClient';
+import { ChatMessage, ProviderSettings } from '../services/llmProviders';
 
 interface APIState {
   loading: boolean;
@@ -47,90 +49,50 @@ export function useAPI(initialState: APIState = { loading: false, error: null, d
 }
 
 /**
- * Hook for managing OpenAI API calls with retry logic
+ * Hook for LLM calls through the pluggable provider layer.
+ * Unlike `execute`, failures are rethrown so callers can count them.
  */
-export function useOpenAI() {
+export function useLLMProvider() {
   const apiState = useAPI();
 
-  const callOpenAI = useCallback(
+  const callLLMProvider = useCallback(
     async (
-      messages: Array<{ role: string; content: string }>,
+      messages: ChatMessage[],
       model: string,
-      apiKey: string,
-      options: {
-        temperature?: number;
-        maxRetries?: number;
-        baseDelay?: number;
-      } = {}
+      settings: ProviderSettings,
+      options: CallProviderOptions = {}
     ) => {
-      const { temperature = 0.7, maxRetries = 3, baseDelay = 500 } = options;
+      let failure: Error | null = null;
+      const result = await apiState.execute(
+        () => callProvider(messages, model, settings, options),
+        { onError: (error) => { failure = error; } }
+      );
+      if (failure) throw failure;
+      return result || "";
+    },
+    [apiState]
+  );
 
-      const fetchWithRetry = async (url: string, opts: RequestInit, tries = maxRetries) => {
-        let attempt = 0;
-        let lastErr: Error | null = null;
-        
-        while (attempt < tries) {
-          try {
-            // Add timeout to fetch request
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
-            
-            const res = await fetch(url, {
-              ...opts,
-              signal: controller.signal
-            });
-            
-            clearTimeout(timeoutId);
-            
-            if (res.ok) return res;
-            
-            const txt = await res.text().catch(() => "");
-            if (res.status === 429 || (res.status >= 500 && res.status <= 599)) {
-              lastErr = new Error(`HTTP ${res.status} ${txt}`);
-            } else {
-              throw new Error(`HTTP ${res.status} ${txt}`);
-            }
-          } catch (e) {
-            if (e instanceof Error && e.name === 'AbortError') {
-              lastErr = new Error('Request timeout');
-            } else {
-              lastErr = e as Error;
-            }
-          }
-          
-          attempt++;
-          if (attempt < tries) {
-            const jitter = Math.floor(Math.random() * 200);
-            const delay = baseDelay * Math.pow(2, attempt - 1) + jitter;
-            await new Promise(resolve => setTimeout(resolve, delay));
-          }
-        }
-        
-        throw lastErr || new Error("Request failed");
-      };
+  return {
+    ...apiState,
+    callLLMProvider,
+  };
+}
 
-      return apiState.execute(async () => {
-        const response = await fetchWithRetry(
-          "https://api.openai.com/v1/chat/completions",
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Authorization: `Bearer ${apiKey}`,
-            },
-            body: JSON.stringify({
-              model,
-              messages,
-              temperature,
-            }),
-          }
-        );
+/**
+ * Hook for managing OpenAI API calls with retry logic
+ */
+export function useOpenAI() {
+  const { callLLMProvider, ...apiState } = useLLMProvider();
 
-        const data = await response.json();
-        return data?.choices?.[0]?.message?.content?.trim?.() || "";
-      });
-    },
-    [apiState]
+  const callOpenAI = useCallback(
+    (
+      messages: ChatMessage[],
+      model: string,
+      apiKey: string,
+      options: CallProviderOptions = {}
+    ) => callLLMProvider(messages, model, { provider: "openai", apiKey }, options),
+    [callLLMProvider]
   );
 
   return {
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { collectPrompts, createBatchItems, createPauseGate, resetBatchItems, runBatch, summarizeBatch } from "./batchRunner";
+import { createScheduler } from "./scheduler";
+
+describe("runBatch", () => {
+  it("records ok and failed items in their original positions", async () => {
+    const items = await runBatch(
+      createBatchItems(3),
+      async (index) => {
+        if (index === 1) throw new Error("boom");
+        return `prompt ${index}`;
+      },
+      { concurrency: 2 }
+    );
+
+    expect(items.map((item) => item.status)).toEqual(["ok", "failed", "ok"]);
+    expect(items[2].text).toBe("prompt 2");
+    expect(items[1].error).toBe("boom");
+    expect(summarizeBatch(items)).toMatchObject({ total: 3, done: 3, ok: 2, fail: 1 });
+  });
+
+  it("tracks retry attempts reported by the task", async () => {
+    const statuses: string[] = [];
+    const [item] = await runBatch(
+      createBatchItems(1),
+      async (_index, { onRetry }) => {
+        onRetry(1, new Error("HTTP 429"));
+        onRetry(2, new Error("HTTP 429"));
+        return "done";
+      },
+      { concurrency: 1, onUpdate: (update) => statuses.push(update.status) }
+    );
+
+    expect(statuses).toContain("retrying");
+    expect(item).toMatchObject({ status: "ok", attempts: 3, text: "done" });
+    expect(item.error).toBeUndefined();
+  });
+
+  it("keeps reported usage per item and sums it", async () => {
+    const items = await runBatch(
+      createBatchItems(3),
+      async (index, { onUsage }) => {
+        if (index < 2) onUsage({ promptTokens: 100, completionTokens: 10 * (index + 1) });
+        return `prompt ${index}`;
+      },
+      { concurrency: 3 }
+    );
+
+    expect(items[1].usage).toEqual({ promptTokens: 100, completionTokens: 20 });
+    expect(items[2].usage).toBeUndefined();
+    expect(summarizeBatch(items).usage).toEqual({ promptTokens: 200, completionTokens: 30 });
+  });
+
+  it("counts items answered from the cache", async () => {
+    const items = await runBatch(
+      createBatchItems(3),
+      async (index, { onCached }) => {
+        if (index !== 1) onCached();
+        return `prompt ${index}`;
+      },
+      { concurrency: 2 }
+    );
+
+    expect(items.map((item) => Boolean(item.cached))).toEqual([true, false, true]);
+    expect(summarizeBatch(items)).toMatchObject({ ok: 3, cached: 2 });
+  });
+
+  it("keeps no more items in flight than the scheduler allows", async () => {
+    const scheduler = createScheduler({ concurrency: 4 });
+    scheduler.afterResponse(429, new Headers());
+    let inFlight = 0;
+    let peak = 0;
+    const items = await runBatch(
+      createBatchItems(6),
+      async (index) => {
+        peak = Math.max(peak, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        inFlight--;
+        return `prompt ${index}`;
+      },
+      { concurrency: 4, scheduler }
+    );
+
+    expect(peak).toBe(2);
+    expect(collectPrompts(items)).toHaveLength(6);
+  });
+
+  it("re-sends only the requested indices and merges them in place", async () => {
+    const first = await runBatch(
+      createBatchItems(3),
+      async (index) => {
+        if (index !== 0) throw new Error("fail");
+        return "a";
+      },
+      { concurrency: 3 }
+    );
+
+    const sent: number[] = [];
+    const retried = await runBatch(
+      resetBatchItems(first, [1, 2]),
+      async (index) => {
+        sent.push(index);
+        return index === 1 ? "b" : Promise.reject(new Error("still failing"));
+      },
+      { concurrency: 2, indices: [1, 2] }
+    );
+
+    expect(sent.sort()).toEqual([1, 2]);
+    expect(retried.map((item) => item.status)).toEqual(["ok", "ok", "failed"]);
+    expect(collectPrompts(retried)).toEqual(["a", "b"]);
+  });
+
+  it("keeps finished items and cancels the rest on abort", async () => {
+    const controller = new AbortController();
+    const items = await runBatch(
+      createBatchItems(4),
+      async (index) => {
+        if (index === 1) controller.abort();
+        return `prompt ${index}`;
+      },
+      { concurrency: 1, signal: controller.signal }
+    );
+
+    expect(items.map((item) => item.status)).toEqual(["ok", "ok", "cancelled", "cancelled"]);
+    expect(summarizeBatch(items).cancelled).toBe(2);
+  });
+
+  it("holds queued items while paused", async () => {
+    const gate = createPauseGate();
+    const started: number[] = [];
+    gate.pause();
+
+    const run = runBatch(
+      createBatchItems(2),
+      async (index) => {
+        started.push(index);
+        return "";
+      },
+      { concurrency: 1, gate }
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(started).toEqual([]);
+
+    gate.resume();
+    await run;
+    expect(started).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Concurrency-limited worker pool for batch generation.
+ * Each batch item carries its own status so the UI can render progress per prompt.
+ */
+import type { TokenUsage } from "./llmProviders";
+import type { RequestScheduler } from "./scheduler";
+import type { OutputViolation } from "../utils/outputConstraints";
+import type { OutputFieldValues } from "../utils/structuredOutput";
+import { sumUsage } from "../utils/costEstimate";
+
+export type BatchItemStatus = "pending" | "streaming" | "retrying" | "ok" | "failed" | "cancelled";
+
+export interface BatchItem {
+  index: number;
+  text: string;
+  status: BatchItemStatus;
+  // Last error message (kept while retrying and on final failure)
+  error?: string;
+  attempts: number;
+  // Tokens reported by the provider for the successful attempt
+  usage?: TokenUsage;
+  // Served from the response cache rather than sent
+  cached?: boolean;
+  // Output constraints the final text still breaks, and corrective follow-ups sent
+  violations?: OutputViolation[];
+  repairs?: number;
+  // Every field of a structured reply; `text` holds the first
+  fields?: OutputFieldValues;
+}
+
+export interface BatchProgress {
+  total: number;
+  done: number;
+  ok: number;
+  fail: number;
+  cancelled: number;
+  // Items served from the response cache
+  cached: number;
+  // Finished items that break an output constraint
+  violations: number;
+  // Reported tokens so far, summed over items
+  usage: TokenUsage;
+}
+
+export interface BatchTaskContext {
+  // Receives the accumulated text while streaming
+  onToken: (text: string) => void;
+  // Report a failed attempt that is about to be retried (attempt is 1-based)
+  onRetry: (attempt: number, error: Error) => void;
+  // Record the tokens the provider reports for the request
+  onUsage: (usage: TokenUsage) => void;
+  // Mark the item as answered from the response cache
+  onCached: () => void;
+  // Record the output-constraint check of the final text
+  onChecked: (violations: OutputViolation[], repairs: number) => void;
+  // Record the fields of a structured reply
+  onFields: (fields: OutputFieldValues) => void;
+  signal?: AbortSignal;
+}
+
+export type BatchTask = (index: number, context: BatchTaskContext) => Promise<string>;
+
+export interface RunBatchOptions {
+  concurrency: number;
+  onUpdate?: (item: BatchItem) => void;
+  // Aborting cancels in-flight requests and leaves queued items unsent
+  signal?: AbortSignal;
+  gate?: PauseGate;
+  // Only run these item indices (e.g. retrying failures); others are left untouched
+  indices?: number[];
+  // Adapts how many of the `concurrency` workers may have an item in flight
+  scheduler?: RequestScheduler;
+}
+
+/**
+ * Pausing stops workers from picking up new items; requests already in flight finish.
+ */
+export interface PauseGate {
+  readonly paused: boolean;
+  pause(): void;
+  resume(): void;
+  wait(signal?: AbortSignal): Promise<void>;
+}
+
+export function createPauseGate(): PauseGate {
+  let paused = false;
+  let waiters: Array<() => void> = [];
+
+  return {
+    get paused() {
+      return paused;
+    },
+    pause() {
+      paused = true;
+    },
+    resume() {
+      paused = false;
+      const release = waiters;
+      waiters = [];
+      release.forEach((fn) => fn());
+    },
+    wait(signal) {
+      if (!paused || signal?.aborted) return Promise.resolve();
+      return new Promise<void>((resolve) => {
+        waiters.push(resolve);
+        signal?.addEventListener("abort", () => resolve(), { once: true });
+      });
+    },
+  };
+}
+
+export function createBatchItems(count: number): BatchItem[] {
+  return Array.from({ length: count }, (_, index) => ({ index, text: "", status: "pending" as const, attempts: 0 }));
+}
+
+/**
+ * Reset the given items to pending so they can be sent again in place.
+ */
+export function resetBatchItems(items: BatchItem[], indices: number[]): BatchItem[] {
+  const targets = new Set(indices);
+  return items.map((item) =>
+    targets.has(item.index) ? { index: item.index, text: "", status: "pending" as const, attempts: 0 } : item
+  );
+}
+
+/**
+ * Final prompt text in batch order; failed and cancelled items are left out.
+ */
+export function collectPrompts(items: BatchItem[]): string[] {
+  return items.filter((item) => item.status === "ok").map((item) => item.text);
+}
+
+export function summarizeBatch(items: BatchItem[]): BatchProgress {
+  const ok = items.filter((item) => item.status === "ok").length;
+  const fail = items.filter((item) => item.status === "failed").length;
+  const cancelled = items.filter((item) => item.status === "cancelled").length;
+  const cached = items.filter((item) => item.cached).length;
+  const violations = items.filter((item) => item.status === "ok" && item.violations?.length).length;
+  return { total: items.length, done: ok + fail, ok, fail, cancelled, cached, violations, usage: sumUsage(items.map((item) => item.usage)) };
+}
+
+/**
+ * Run `task` for every item with at most `concurrency` in flight (clamped 1..10).
+ * Resolves with the final items; failures and cancellations are recorded, never thrown.
+ */
+export async function runBatch(items: BatchItem[], task: BatchTask, options: RunBatchOptions): Promise<BatchItem[]> {
+  const results = [...items];
+  const update = (index: number, patch: Partial<BatchItem>) => {
+    results[index] = { ...results[index], ...patch };
+    options.onUpdate?.(results[index]);
+  };
+
+  const { signal, gate, scheduler } = options;
+  const queue = options.indices ?? results.map((item) => item.index);
+
+  let next = 0;
+  async function worker() {
+    while (next < queue.length) {
+      await gate?.wait(signal);
+      if (signal?.aborted) return;
+      const release = await scheduler?.acquireSlot(signal).catch(() => undefined);
+      if (scheduler && !release) return;
+      if (signal?.aborted || next >= queue.length) {
+        release?.();
+        return;
+      }
+      const myIndex = queue[next++];
+      update(myIndex, { attempts: 1, error: undefined });
+      try {
+        const text = await task(myIndex, {
+          onToken: (partial) => update(myIndex, { text: partial, status: "streaming" }),
+          onRetry: (attempt, error) => update(myIndex, { text: "", status: "retrying", attempts: attempt + 1, error: error.message }),
+          onUsage: (usage) => update(myIndex, { usage }),
+          onCached: () => update(myIndex, { cached: true }),
+          onChecked: (violations, repairs) =>
+            update(myIndex, { violations: violations.length ? violations : undefined, repairs: repairs || undefined }),
+          onFields: (fields) => update(myIndex, { fields }),
+          signal,
+        });
+        update(myIndex, { text: text || "", status: "ok", error: undefined });
+      } catch (e) {
+        if (signal?.aborted) {
+          update(myIndex, { status: "cancelled" });
+        } else {
+          update(myIndex, { status: "failed", error: e instanceof Error ? e.message : String(e) });
+        }
+      } finally {
+        release?.();
+      }
+    }
+  }
+
+  const N = Math.max(1, Math.min(Number(options.concurrency) || 1, 10)); // clamp 1..10
+  await Promise.all(Array.from({ length: N }, () => worker()));
+
+  // Anything never picked up was cancelled before it was sent
+  queue.forEach((index) => {
+    if (results[index].status === "pending") update(index, { status: "cancelled" });
+  });
+  return results;
+}
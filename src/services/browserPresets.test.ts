@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { BROWSER_PRESETS_KEY, createBrowserPresetStore } from "./browserPresets";
+import { PresetExistsError } from "./presetNames";
+import type { PresetData } from "./presetService";
+
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => void items.delete(key),
+    setItem: (key, value) => void items.set(key, String(value)),
+  };
+}
+
+const preset = (instructions: string): PresetData => ({
+  instructions,
+  sections: [],
+  defaults: { model: "gpt-4o-mini", seed: -1, batch: 1, concurrency: 4 },
+});
+
+const bundled = { HWS14: preset("bundled hws"), ORJ: preset("bundled orj") };
+
+describe("browser preset storage", () => {
+  it("lists bundled presets and serves saved copies over them", async () => {
+    const store = createBrowserPresetStore(memoryStorage(), bundled);
+    expect(await store.list()).toEqual(["HWS14", "ORJ"]);
+
+    expect(await store.save("hws14", preset("edited"), true)).toBe("HWS14");
+    expect(await store.save(" Mine.json ", preset("mine"), true)).toBe("Mine");
+    expect(await store.list()).toEqual(["HWS14", "ORJ", "Mine"]);
+    expect(await store.load("HWS14")).toMatchObject({ instructions: "edited" });
+    expect(await store.load("mine")).toMatchObject({ instructions: "mine" });
+    expect(await store.load("missing")).toBeNull();
+  });
+
+  it("keeps presets across store instances", async () => {
+    const storage = memoryStorage();
+    await createBrowserPresetStore(storage, bundled).save("Mine", preset("mine"), true);
+    expect(JSON.parse(storage.getItem(BROWSER_PRESETS_KEY)!).presets.Mine.instructions).toBe("mine");
+    expect(await createBrowserPresetStore(storage, bundled).load("Mine")).toMatchObject({ instructions: "mine" });
+  });
+
+  it("refuses to replace another preset without overwrite", async () => {
+    const store = createBrowserPresetStore(memoryStorage(), bundled);
+    await expect(store.save("orj", preset("x"), false)).rejects.toBeInstanceOf(PresetExistsError);
+    await expect(store.duplicate("HWS14", "ORJ", false)).rejects.toBeInstanceOf(PresetExistsError);
+    await expect(store.rename("HWS14", "ORJ", false)).rejects.toBeInstanceOf(PresetExistsError);
+    expect(await store.list()).toEqual(["HWS14", "ORJ"]);
+
+    expect(await store.duplicate("HWS14", "ORJ", true)).toBe("ORJ");
+    expect(await store.load("ORJ")).toMatchObject({ instructions: "bundled hws" });
+  });
+
+  it("renames, duplicates and deletes, hiding deleted bundled presets", async () => {
+    const store = createBrowserPresetStore(memoryStorage(), bundled);
+    expect(await store.duplicate("ORJ", "ORJ copy", false)).toBe("ORJ copy");
+    expect(await store.rename("HWS14", "Harbour", false)).toBe("Harbour");
+    expect(await store.list()).toEqual(["ORJ", "ORJ copy", "Harbour"]);
+    expect(await store.load("Harbour")).toMatchObject({ instructions: "bundled hws" });
+
+    // Renaming only the case keeps the preset
+    expect(await store.rename("harbour", "HARBOUR", false)).toBe("HARBOUR");
+    expect(await store.list()).toEqual(["ORJ", "ORJ copy", "HARBOUR"]);
+
+    await store.remove("orj");
+    expect(await store.list()).toEqual(["ORJ copy", "HARBOUR"]);
+    await expect(store.remove("ORJ")).rejects.toThrow(/does not exist/);
+
+    // Saving under a deleted bundled name brings the name back
+    await store.save("ORJ", preset("new orj"), false);
+    expect(await store.load("ORJ")).toMatchObject({ instructions: "new orj" });
+  });
+
+  it("ignores unreadable storage and has no revisions", async () => {
+    const storage = memoryStorage();
+    storage.setItem(BROWSER_PRESETS_KEY, "{not json");
+    const store = createBrowserPresetStore(storage, bundled);
+    expect(await store.list()).toEqual(["HWS14", "ORJ"]);
+    expect(await store.listRevisions("HWS14")).toEqual([]);
+    await expect(store.restoreRevision("HWS14", "x")).rejects.toThrow(/preset server/);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Preset storage for builds served without the preset API: bundled presets are
+ * read-only defaults, and user-created or edited presets live in localStorage.
+ */
+import type { PresetBackend, PresetData } from "./presetService";
+import { normalizePresetName, PresetExistsError, samePresetName } from "./presetNames";
+
+export const BROWSER_PRESETS_KEY = "pa_user_presets";
+
+interface StoredPresets {
+  // Presets saved in this browser (shadowing a bundled preset of the same name)
+  presets: Record<string, PresetData>;
+  // Bundled presets deleted in this browser
+  hidden: string[];
+}
+
+const REVISIONS_UNAVAILABLE = "Preset revisions are kept by the preset server and are not available in browser storage";
+
+export function createBrowserPresetStore(storage: Storage, bundled: Record<string, unknown>): PresetBackend {
+  function read(): StoredPresets {
+    try {
+      const stored = JSON.parse(storage.getItem(BROWSER_PRESETS_KEY) || "{}");
+      return { presets: stored.presets || {}, hidden: Array.isArray(stored.hidden) ? stored.hidden : [] };
+    } catch (error) {
+      console.warn("Stored presets are unreadable, ignoring them:", error);
+      return { presets: {}, hidden: [] };
+    }
+  }
+
+  function write(stored: StoredPresets) {
+    storage.setItem(BROWSER_PRESETS_KEY, JSON.stringify(stored));
+  }
+
+  function names(stored: StoredPresets): string[] {
+    const visible = Object.keys(bundled).filter((name) => !stored.hidden.some((h) => samePresetName(h, name)));
+    const own = Object.keys(stored.presets).filter((name) => !visible.some((v) => samePresetName(v, name)));
+    return [...visible, ...own];
+  }
+
+  function find(stored: StoredPresets, name: string): string | null {
+    return names(stored).find((existing) => samePresetName(existing, name)) ?? null;
+  }
+
+  function require(stored: StoredPresets, name: string): string {
+    const existing = find(stored, normalizePresetName(name));
+    if (!existing) throw new Error(`Preset "${name}" does not exist`);
+    return existing;
+  }
+
+  // Store `data` as `name`, replacing a different existing preset only with `overwrite`
+  function put(stored: StoredPresets, name: string, data: unknown, overwrite: boolean, except?: string): string {
+    const target = find(stored, name);
+    if (target && target !== except && !overwrite) throw new PresetExistsError(`Preset "${target}" already exists`);
+    const key = target && target !== except ? target : name;
+    stored.presets[key] = data as PresetData;
+    stored.hidden = stored.hidden.filter((h) => !samePresetName(h, key));
+    return key;
+  }
+
+  function removeKey(stored: StoredPresets, name: string) {
+    delete stored.presets[name];
+    if (name in bundled) stored.hidden.push(name);
+  }
+
+  return {
+    kind: "browser",
+    async list() {
+      return names(read());
+    },
+    async load(name) {
+      const stored = read();
+      const existing = find(stored, name);
+      if (!existing) return null;
+      return stored.presets[existing] ?? bundled[existing] ?? null;
+    },
+    async save(name, data, overwrite) {
+      const stored = read();
+      const key = put(stored, normalizePresetName(name), data, overwrite);
+      write(stored);
+      return key;
+    },
+    async rename(from, to, overwrite) {
+      const stored = read();
+      const source = require(stored, from);
+      const data = stored.presets[source] ?? bundled[source];
+      removeKey(stored, source);
+      const key = put(stored, normalizePresetName(to), data, overwrite, source);
+      write(stored);
+      return key;
+    },
+    async duplicate(from, to, overwrite) {
+      const stored = read();
+      const source = require(stored, from);
+      const key = put(stored, normalizePresetName(to), stored.presets[source] ?? bundled[source], overwrite);
+      write(stored);
+      return key;
+    },
+    async remove(name) {
+      const stored = read();
+      removeKey(stored, require(stored, name));
+      write(stored);
+    },
+    async listRevisions() {
+      return [];
+    },
+    async getRevision() {
+      throw new Error(REVISIONS_UNAVAILABLE);
+    },
+    async restoreRevision() {
+      throw new Error(REVISIONS_UNAVAILABLE);
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { RunRecord, runResults, runToBatchItems, runToPresetData, searchRuns, summarizeSpend } from "./historyStore";
+import type { BatchItem } from "./batchRunner";
+
+const run = (id: string, patch: Partial<RunRecord> = {}): RunRecord => ({
+  id,
+  timestamp: 0,
+  presetName: "HWS14",
+  instructions: "Write one paragraph.",
+  sections: [],
+  runMode: "llm",
+  provider: "openai",
+  model: "gpt-4o-mini",
+  seed: 7,
+  concurrency: 4,
+  payloads: [{ Weather: "Stormy" }, { Weather: "Clear" }],
+  messages: [],
+  outputs: ["A stormy harbour at dusk.", ""],
+  failures: [{ index: 1, error: "HTTP 500", attempts: 3 }],
+  ...patch,
+});
+
+describe("run history", () => {
+  it("searches preset, model and outputs with every term required", () => {
+    const runs = [run("a"), run("b", { presetName: "ORJ", model: "claude-sonnet", outputs: ["A quiet forest."] })];
+    expect(searchRuns(runs, "").map((r) => r.id)).toEqual(["a", "b"]);
+    expect(searchRuns(runs, "HARBOUR").map((r) => r.id)).toEqual(["a"]);
+    expect(searchRuns(runs, "orj forest").map((r) => r.id)).toEqual(["b"]);
+    expect(searchRuns(runs, "orj harbour")).toEqual([]);
+  });
+
+  it("round-trips batch results through the stored record", () => {
+    const items: BatchItem[] = [
+      { index: 0, text: "A stormy harbour at dusk.", status: "ok", attempts: 1 },
+      { index: 1, text: "", status: "failed", error: "HTTP 500", attempts: 3 },
+    ];
+    const record = run("a", runResults(items));
+    expect(record.outputs).toEqual(["A stormy harbour at dusk.", ""]);
+    expect(runToBatchItems(record)).toEqual(items);
+  });
+
+  it("checks reopened outputs against the run's output constraints", () => {
+    const record = run("a", { outputConstraints: { requiredSuffix: "{{Weather}}." }, outputs: ["A harbour, stormy.", ""] });
+    const [reopened] = runToBatchItems(record);
+    expect(reopened.violations).toBeUndefined();
+    const [flagged] = runToBatchItems({ ...record, outputs: ["A harbour, calm.", ""] });
+    expect(flagged.violations?.map((v) => v.kind)).toEqual(["suffix"]);
+  });
+
+  it("stores usage per item and in total, priced at the given rate", () => {
+    const items: BatchItem[] = [
+      { index: 0, text: "One.", status: "ok", attempts: 1, usage: { promptTokens: 1000, completionTokens: 100 } },
+      { index: 1, text: "Two.", status: "ok", attempts: 1, usage: { promptTokens: 1000, completionTokens: 300 } },
+    ];
+    const results = runResults(items, { model: "gpt-4o-mini", input: 1, output: 10 });
+    expect(results.usage).toEqual({ promptTokens: 2000, completionTokens: 400 });
+    expect(results.cost).toBeCloseTo(0.006);
+    expect(runToBatchItems(run("a", { payloads: [{}, {}], ...results }))).toEqual(items);
+
+    expect(runResults(items).cost).toBeNull();
+    expect(runResults([{ index: 0, text: "Local.", status: "ok", attempts: 1 }]).usage).toBeUndefined();
+  });
+
+  it("sums spend per preset and per model", () => {
+    const usage = { promptTokens: 100, completionTokens: 50 };
+    const runs = [
+      run("a", { usage, cost: 0.5 }),
+      run("b", { usage, cost: 1 }),
+      run("c", { presetName: "ORJ", model: "llama3.1", usage, cost: null }),
+      run("d", { presetName: "ORJ" }),
+    ];
+    expect(summarizeSpend(runs, "presetName")).toEqual([
+      { key: "HWS14", runs: 2, usage: { promptTokens: 200, completionTokens: 100 }, cost: 1.5, unpricedRuns: 0 },
+      { key: "ORJ", runs: 1, usage, cost: 0, unpricedRuns: 1 },
+    ]);
+    expect(summarizeSpend(runs, "model").map((row) => row.key)).toEqual(["gpt-4o-mini", "llama3.1"]);
+  });
+
+  it("restores the run's settings as preset defaults", () => {
+    const preset = runToPresetData(run("a"));
+    expect(preset.defaults).toMatchObject({ model: "gpt-4o-mini", seed: 7, batch: 2, provider: "openai", runMode: "llm" });
+  });
+});
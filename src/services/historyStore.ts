@@ -0,0 +1,185 @@
+/**
+ * Persistent run history, stored in IndexedDB.
+ */
+import type { ChatMessage, ProviderId, TokenUsage } from "./llmProviders";
+import type { PresetData, RunMode, SectionData } from "./presetService";
+import type { ConstraintRule } from "../utils/constraints";
+import { checkOutput, OutputConstraints } from "../utils/outputConstraints";
+import type { OutputField, OutputFieldValues } from "../utils/structuredOutput";
+import type { Payload } from "../utils/payloadBuilder";
+import type { BatchItem } from "./batchRunner";
+import { ModelPrice, sumUsage, usageCost } from "../utils/costEstimate";
+import { RUNS_STORE, withStore } from "./idb";
+
+export interface RunFailure {
+  index: number;
+  error: string;
+  attempts: number;
+}
+
+export interface RunRecord {
+  id: string;
+  timestamp: number;
+  presetName: string;
+  // Snapshot of the editor at run time
+  instructions: string;
+  sections: SectionData[];
+  rules?: ConstraintRule[];
+  outputTemplate?: string;
+  outputConstraints?: OutputConstraints;
+  outputFields?: OutputField[];
+  runMode: RunMode;
+  provider: ProviderId;
+  baseUrl?: string;
+  model: string;
+  seed: number;
+  concurrency: number;
+  payloads: Payload[];
+  // Exact messages sent per item (empty for local renders)
+  messages: ChatMessage[][];
+  // Output per item, in batch order ("" where the item failed or was cancelled)
+  outputs: string[];
+  // Every field of structured replies, per item (null where the item has none)
+  itemFields?: (OutputFieldValues | null)[];
+  failures: RunFailure[];
+  // Tokens reported by the provider, per item (null where none were reported) and in total;
+  // absent on local renders and runs recorded before usage was captured
+  itemUsage?: (TokenUsage | null)[];
+  usage?: TokenUsage;
+  // USD at the prices set when the run finished (null when the model had no price)
+  cost?: number | null;
+}
+
+/**
+ * Outputs, failures and usage of a finished batch, in the shape stored on a run.
+ * Usage is priced with `price` when given.
+ */
+export function runResults(
+  items: BatchItem[],
+  price?: ModelPrice
+): Pick<RunRecord, "outputs" | "itemFields" | "failures" | "itemUsage" | "usage" | "cost"> {
+  const reported = items.some((item) => item.usage);
+  const usage = sumUsage(items.map((item) => item.usage));
+  const structured = items.some((item) => item.status === "ok" && item.fields);
+  return {
+    itemFields: structured ? items.map((item) => (item.status === "ok" && item.fields) || null) : undefined,
+    itemUsage: reported ? items.map((item) => item.usage ?? null) : undefined,
+    usage: reported ? usage : undefined,
+    cost: reported ? usageCost(usage, price) : undefined,
+    outputs: items.map((item) => (item.status === "ok" ? item.text : "")),
+    failures: items
+      .filter((item) => item.status === "failed")
+      .map((item) => ({ index: item.index, error: item.error || "Failed", attempts: item.attempts })),
+  };
+}
+
+/**
+ * Rebuild batch items from a stored run so its results (and failures) can be reopened.
+ * Outputs are checked again against the run's output constraints.
+ */
+export function runToBatchItems(run: RunRecord): BatchItem[] {
+  return run.payloads.map((_, index) => {
+    const failure = run.failures.find((f) => f.index === index);
+    if (failure) return { index, text: "", status: "failed", error: failure.error, attempts: failure.attempts };
+    const text = run.outputs[index] || "";
+    const usage = run.itemUsage?.[index] ?? undefined;
+    const violations = text ? checkOutput(text, run.outputConstraints, run.payloads[index]) : [];
+    const fields = text ? run.itemFields?.[index] ?? undefined : undefined;
+    return {
+      index,
+      text,
+      status: text ? "ok" : "cancelled",
+      attempts: text ? 1 : 0,
+      ...(usage && { usage }),
+      ...(violations.length ? { violations } : {}),
+      ...(fields && { fields }),
+    };
+  });
+}
+
+export async function saveRun(record: RunRecord): Promise<void> {
+  await withStore(RUNS_STORE, "readwrite", (store) => store.put(record));
+}
+
+/**
+ * All runs, newest first
+ */
+export async function listRuns(): Promise<RunRecord[]> {
+  const runs = await withStore<RunRecord[]>(RUNS_STORE, "readonly", (store) => store.getAll());
+  return runs.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export async function deleteRun(id: string): Promise<void> {
+  await withStore(RUNS_STORE, "readwrite", (store) => store.delete(id));
+}
+
+/**
+ * Case-insensitive search over preset, model, instructions and outputs.
+ * Every whitespace-separated term must match somewhere in the run.
+ */
+export function searchRuns(runs: RunRecord[], query: string): RunRecord[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!terms.length) return runs;
+  return runs.filter((run) => {
+    const fieldValues = (run.itemFields || []).flatMap((fields) => (fields ? Object.values(fields) : []));
+    const haystack = [run.presetName, run.model, run.provider, run.instructions, ...run.outputs, ...fieldValues]
+      .join("\n")
+      .toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+}
+
+export interface SpendSummary {
+  // Preset or model name
+  key: string;
+  runs: number;
+  usage: TokenUsage;
+  // Sum over runs with a known cost
+  cost: number;
+  // Runs with usage but no price, left out of `cost`
+  unpricedRuns: number;
+}
+
+/**
+ * Cumulative reported usage and cost grouped by preset or model, highest spend first.
+ * Runs without reported usage are left out.
+ */
+export function summarizeSpend(runs: RunRecord[], by: "presetName" | "model"): SpendSummary[] {
+  const groups = new Map<string, SpendSummary>();
+  runs.forEach((run) => {
+    if (!run.usage) return;
+    const key = run[by];
+    const group = groups.get(key) ?? { key, runs: 0, usage: sumUsage([]), cost: 0, unpricedRuns: 0 };
+    group.runs++;
+    group.usage = sumUsage([group.usage, run.usage]);
+    if (typeof run.cost === "number") group.cost += run.cost;
+    else group.unpricedRuns++;
+    groups.set(key, group);
+  });
+  return [...groups.values()].sort(
+    (a, b) => b.cost - a.cost || b.usage.promptTokens + b.usage.completionTokens - (a.usage.promptTokens + a.usage.completionTokens)
+  );
+}
+
+/**
+ * The run's editor snapshot as preset data, for restoring into the editor.
+ */
+export function runToPresetData(run: RunRecord): PresetData {
+  return {
+    instructions: run.instructions,
+    sections: run.sections,
+    rules: run.rules,
+    outputTemplate: run.outputTemplate,
+    outputConstraints: run.outputConstraints,
+    outputFields: run.outputFields,
+    defaults: {
+      model: run.model,
+      seed: run.seed,
+      batch: run.payloads.length,
+      concurrency: run.concurrency,
+      provider: run.provider,
+      baseUrl: run.baseUrl,
+      runMode: run.runMode,
+    },
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Minimal promise wrapper around the app's IndexedDB database.
+ */
+
+const DB_NAME = "prompt-architect";
+const DB_VERSION = 2;
+
+export const RUNS_STORE = "runs";
+export const RESPONSES_STORE = "responses";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available in this browser"));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RUNS_STORE)) {
+          const runs = db.createObjectStore(RUNS_STORE, { keyPath: "id" });
+          runs.createIndex("timestamp", "timestamp");
+        }
+        if (!db.objectStoreNames.contains(RESPONSES_STORE)) {
+          const responses = db.createObjectStore(RESPONSES_STORE, { keyPath: "key" });
+          responses.createIndex("lastUsedAt", "lastUsedAt");
+        }
+      };
+      // Another tab still has an older version open; failing beats waiting for it to close
+      let blocked = false;
+      request.onblocked = () => {
+        blocked = true;
+        dbPromise = null;
+        reject(new Error("The browser database is being upgraded; close other Prompt Architect tabs and reload"));
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        if (blocked) return db.close();
+        // Let a newer version opened in another tab upgrade instead of blocking it
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Run a single request against one object store and resolve with its result.
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const result = await requestToPromise(fn(tx.objectStore(storeName)));
+  if (mode === "readwrite") {
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+  return result;
+}
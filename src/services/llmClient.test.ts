@@ -0,0 +1,162 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { callProvider, fetchWithRetry } from "./llmClient";
+import { createScheduler } from "./scheduler";
+
+function sseResponse(chunks: string[]) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200, headers: { "Content-Type": "text/event-stream" } });
+}
+
+describe("callProvider streaming", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("assembles OpenAI deltas split across chunks", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => sseResponse([
+      'data: {"choices":[{"delta":{"content":"A cin"}}]}\n\ndata: {"choices":[{"del',
+      'ta":{"content":"ematic shot"}}]}\n\n',
+      "data: [DONE]\n\n",
+    ])));
+
+    const seen: string[] = [];
+    const onUsage = vi.fn();
+    const text = await callProvider(
+      [{ role: "user", content: "{}" }],
+      "gpt-4o-mini",
+      { provider: "openai", apiKey: "sk-test" },
+      { stream: true, onToken: (partial) => seen.push(partial), onUsage }
+    );
+
+    expect(text).toBe("A cinematic shot");
+    expect(seen).toEqual(["A cin", "A cinematic shot"]);
+    // No usage chunk in this stream
+    expect(onUsage).not.toHaveBeenCalled();
+  });
+
+  it("reads Anthropic content_block_delta events", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => sseResponse([
+      'event: message_start\ndata: {"type":"message_start","message":{"usage":{"input_tokens":42,"output_tokens":1}}}\n\n',
+      'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Hello"}}\n\n',
+      'event: message_delta\ndata: {"type":"message_delta","usage":{"output_tokens":7}}\n\n',
+      'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+    ])));
+
+    const onUsage = vi.fn();
+    const text = await callProvider([{ role: "user", content: "{}" }], "claude", { provider: "anthropic", apiKey: "k" }, { stream: true, onUsage });
+    expect(text).toBe("Hello");
+    expect(onUsage).toHaveBeenCalledWith({ promptTokens: 42, completionTokens: 7 });
+  });
+
+  it("fails a stream that stops sending data", async () => {
+    vi.useFakeTimers();
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode('data: {"choices":[{"delta":{"content":"A cin"}}]}\n\n'));
+      },
+    });
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(body, { status: 200 })));
+
+    const text = callProvider([{ role: "user", content: "{}" }], "m", { provider: "openai", apiKey: "k" }, { stream: true, timeoutMs: 1000 });
+    const failed = expect(text).rejects.toThrow(/stalled/);
+    await vi.advanceTimersByTimeAsync(1500);
+    await failed;
+  });
+
+  it("cancels the stream when it reports an error", async () => {
+    const cancel = vi.fn();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('data: {"error":{"message":"overloaded"}}\n\n'));
+      },
+      cancel,
+    });
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(body, { status: 200 })));
+
+    await expect(
+      callProvider([{ role: "user", content: "{}" }], "m", { provider: "openai", apiKey: "k" }, { stream: true })
+    ).rejects.toThrow("overloaded");
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it("reports usage from a full OpenAI response", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({
+      choices: [{ message: { content: "A prompt." } }],
+      usage: { prompt_tokens: 90, completion_tokens: 12 },
+    }))));
+
+    const onUsage = vi.fn();
+    const text = await callProvider([{ role: "user", content: "{}" }], "gpt-4o-mini", { provider: "openai", apiKey: "k" }, { onUsage });
+    expect(text).toBe("A prompt.");
+    expect(onUsage).toHaveBeenCalledWith({ promptTokens: 90, completionTokens: 12 });
+  });
+});
+
+describe("fetchWithRetry rate limits", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  const rateLimited = () => new Response("slow down", { status: 429, headers: { "retry-after": "2" } });
+
+  it("waits for Retry-After instead of the fixed backoff", async () => {
+    vi.useFakeTimers();
+    const fetchMock = vi.fn().mockResolvedValueOnce(rateLimited()).mockResolvedValueOnce(new Response("ok"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const start = Date.now();
+    const done = fetchWithRetry("https://example.test", {}, { baseDelay: 10 }).then(() => Date.now() - start);
+    await vi.advanceTimersByTimeAsync(2500);
+    expect(await done).toBeGreaterThanOrEqual(2000);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("lets the scheduler pace 429s without using up attempts", async () => {
+    vi.useFakeTimers();
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(rateLimited())
+      .mockResolvedValueOnce(rateLimited())
+      .mockResolvedValueOnce(new Response("ok"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const scheduler = createScheduler({ concurrency: 4 });
+    const onRetry = vi.fn();
+    const done = fetchWithRetry("https://example.test", {}, { maxRetries: 1, scheduler, onRetry });
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect((await done).ok).toBe(true);
+    expect(onRetry.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2]);
+    // Halved twice, then raised one step by the success
+    expect(scheduler.state.concurrency).toBe(2);
+  });
+
+  it("removes its abort listeners once each attempt is over", async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValueOnce(rateLimited()).mockResolvedValueOnce(new Response("ok")));
+    const controller = new AbortController();
+    const add = vi.spyOn(controller.signal, "addEventListener");
+    const remove = vi.spyOn(controller.signal, "removeEventListener");
+
+    const done = fetchWithRetry("https://example.test", {}, { baseDelay: 10, signal: controller.signal });
+    await vi.advanceTimersByTimeAsync(2500);
+    expect(await (await done).text()).toBe("ok");
+    expect(remove).toHaveBeenCalledTimes(add.mock.calls.length);
+  });
+
+  it("clears the attempt timeout when fetch rejects", async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValueOnce(new TypeError("network down")).mockResolvedValueOnce(new Response("ok")));
+    const done = fetchWithRetry("https://example.test", {}, { baseDelay: 10 });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect((await done).ok).toBe(true);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Transport for LLM calls: retrying fetch plus a provider-agnostic call helper.
+ * Kept free of React so the worker loop can use it directly.
+ */
+import { ChatMessage, getProvider, ProviderRequestOptions, ProviderSettings, TokenUsage } from "./llmProviders";
+import { MAX_RETRY_AFTER_MS, parseRateLimitHeaders, RequestScheduler } from "./scheduler";
+
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelay?: number;
+  timeoutMs?: number;
+  // Cancels the request and any pending backoff; never retried
+  signal?: AbortSignal;
+  // Called after a failed attempt that will be retried (attempt is 1-based)
+  onRetry?: (attempt: number, error: Error) => void;
+  // Paces every attempt and learns from its rate-limit headers
+  scheduler?: RequestScheduler;
+  // Tokens the request is expected to use, for the scheduler's tokens-per-minute budget
+  estimatedTokens?: number;
+}
+
+// 429s that wait for the scheduler's pace without using up an attempt
+const MAX_SCHEDULED_RATE_LIMIT_WAITS = 10;
+
+function abortError() {
+  const error = new Error("Cancelled");
+  error.name = "AbortError";
+  return error;
+}
+
+function delay(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(abortError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * The same response, with a body that fails when no data arrives for `idleMs` (a stalled
+ * stream; `abort` then stops the request) and calls `release` once it has been read to
+ * the end, failed or been cancelled.
+ */
+function watchBody(res: Response, idleMs: number, abort: () => void, release: () => void): Response {
+  if (!res.body) {
+    release();
+    return res;
+  }
+  const reader = res.body.getReader();
+  let released = false;
+  const finish = () => {
+    if (released) return;
+    released = true;
+    release();
+  };
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const stalled = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Response stalled: no data for ${Math.round(idleMs / 1000)}s`)), idleMs);
+      });
+      try {
+        const { done, value } = await Promise.race([reader.read(), stalled]);
+        if (done) {
+          finish();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        finish();
+        abort();
+        reader.cancel().catch(() => undefined);
+        controller.error(error);
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+    cancel(reason) {
+      finish();
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(body, { status: res.status, statusText: res.statusText, headers: res.headers });
+}
+
+/**
+ * fetch with a per-attempt timeout and exponential backoff on 429/5xx.
+ * The timeout also bounds how long a successful response's body may go without data.
+ * A `Retry-After` on the failed response replaces the backoff.
+ */
+export async function fetchWithRetry(url: string, opts: RequestInit, options: RetryOptions = {}): Promise<Response> {
+  const { maxRetries = 3, baseDelay = 500, timeoutMs = 30000, signal, onRetry, scheduler, estimatedTokens = 0 } = options;
+  let attempt = 0;
+  let rateLimitWaits = 0;
+  let lastErr: Error | null = null;
+
+  while (attempt < maxRetries) {
+    if (signal?.aborted) throw abortError();
+    let retryAfterMs: number | undefined;
+    let rateLimited = false;
+    // Add timeout to fetch request; the caller's signal also aborts it (including a streamed body)
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    let bodyPending = false;
+    try {
+      await scheduler?.beforeRequest(estimatedTokens, signal);
+      timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      const res = await fetch(url, {
+        ...opts,
+        signal: controller.signal
+      });
+
+      scheduler?.afterResponse(res.status, res.headers);
+
+      if (res.ok) {
+        // The caller's signal stays attached until the body has been read
+        bodyPending = true;
+        return watchBody(res, timeoutMs, onAbort, () => signal?.removeEventListener("abort", onAbort));
+      }
+
+      retryAfterMs = parseRateLimitHeaders(res.headers).retryAfterMs;
+      rateLimited = res.status === 429;
+      const txt = await res.text().catch(() => "");
+      lastErr = new Error(`HTTP ${res.status} ${txt}`);
+      if (res.status !== 429 && (res.status < 500 || res.status > 599)) {
+        // Client errors (bad key, bad request) won't succeed on retry
+        break;
+      }
+    } catch (e) {
+      if (signal?.aborted) throw abortError();
+      if (e instanceof Error && e.name === 'AbortError') {
+        lastErr = new Error('Request timeout');
+      } else {
+        lastErr = e as Error;
+      }
+    } finally {
+      clearTimeout(timeoutId);
+      if (!bodyPending) signal?.removeEventListener("abort", onAbort);
+    }
+
+    if (rateLimited && scheduler && rateLimitWaits < MAX_SCHEDULED_RATE_LIMIT_WAITS) {
+      // The scheduler has paused for the server's wait; the next attempt goes out when it allows
+      rateLimitWaits++;
+      onRetry?.(attempt + rateLimitWaits, lastErr);
+      continue;
+    }
+
+    attempt++;
+    if (attempt < maxRetries) {
+      onRetry?.(attempt + rateLimitWaits, lastErr);
+      const jitter = Math.floor(Math.random() * 200);
+      const backoff = baseDelay * Math.pow(2, attempt - 1) + jitter;
+      await delay(retryAfterMs !== undefined ? Math.min(retryAfterMs, MAX_RETRY_AFTER_MS) + jitter : backoff, signal);
+    }
+  }
+
+  throw lastErr || new Error("Request failed");
+}
+
+export type CallProviderOptions = Omit<ProviderRequestOptions, "model"> & RetryOptions & {
+  // Called with the accumulated text each time a streamed delta arrives
+  onToken?: (text: string) => void;
+  // Called once with the tokens the provider reports for the request (not called when it reports none)
+  onUsage?: (usage: TokenUsage) => void;
+};
+
+/**
+ * Read a `text/event-stream` body, calling `onData` with each `data:` payload.
+ */
+export async function readEventStream(response: Response, onData: (data: string) => void): Promise<void> {
+  if (!response.body) throw new Error("Streaming response has no body");
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let finished = false;
+
+  const flushLine = (line: string) => {
+    const trimmed = line.replace(/\r$/, "");
+    if (!trimmed.startsWith("data:")) return;
+    const data = trimmed.slice(5).trim();
+    if (data && data !== "[DONE]") onData(data);
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      lines.forEach(flushLine);
+    }
+    finished = true;
+    buffer += decoder.decode();
+    if (buffer) flushLine(buffer);
+  } finally {
+    // Stop the request when `onData` throws (e.g. an error event) before the stream ended
+    if (!finished) reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * Send one chat request through the configured provider and return its text.
+ * With `stream: true` the text is assembled from SSE deltas as they arrive.
+ */
+export async function callProvider(
+  messages: ChatMessage[],
+  model: string,
+  settings: ProviderSettings,
+  options: CallProviderOptions = {}
+): Promise<string> {
+  const provider = getProvider(settings.provider);
+  if (provider.requiresApiKey && !settings.apiKey) {
+    throw new Error(`No API key set for ${provider.label}.`);
+  }
+
+  const { temperature, maxTokens, stream, responseSchema, onToken, onUsage, ...retry } = options;
+  const { url, init } = provider.buildRequest(messages, settings, { model, temperature, maxTokens, stream, responseSchema });
+  const response = await fetchWithRetry(url, init, retry);
+
+  if (!stream) {
+    const data = await response.json();
+    const usage = provider.parseUsage(data);
+    if (usage) onUsage?.(usage);
+    return provider.parseResponse(data);
+  }
+
+  let text = "";
+  const usage: Partial<TokenUsage> = {};
+  await readEventStream(response, (data) => {
+    let event: any;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      return; // ignore keep-alive or malformed chunks
+    }
+    if (event?.error) {
+      throw new Error(event.error.message || "Stream error");
+    }
+    const delta = provider.parseStreamEvent(event);
+    if (delta) {
+      text += delta;
+      onToken?.(text);
+    }
+    const partial = provider.parseStreamUsage(event);
+    if (partial) Object.assign(usage, partial);
+  });
+  if (Object.keys(usage).length) onUsage?.({ promptTokens: 0, completionTokens: 0, ...usage });
+  return text.trim();
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { getProvider, PROVIDERS } from "./llmProviders";
+
+const messages = [
+  { role: "system", content: "sys" },
+  { role: "user", content: "{}" },
+];
+
+describe("llmProviders", () => {
+  it("builds OpenAI chat completion requests with bearer auth", () => {
+    const { url, init } = PROVIDERS.openai.buildRequest(messages, { provider: "openai", apiKey: "sk-test" }, { model: "gpt-4o-mini" });
+    expect(url).toBe("https://api.openai.com/v1/chat/completions");
+    expect((init.headers as Record<string, string>).Authorization).toBe("Bearer sk-test");
+    expect(JSON.parse(init.body as string)).toMatchObject({ model: "gpt-4o-mini", messages });
+  });
+
+  it("targets a custom base URL and omits auth without a key", () => {
+    const { url, init } = PROVIDERS["openai-compatible"].buildRequest(
+      messages,
+      { provider: "openai-compatible", baseUrl: "http://localhost:1234/v1/" },
+      { model: "llama3.1" }
+    );
+    expect(url).toBe("http://localhost:1234/v1/chat/completions");
+    expect((init.headers as Record<string, string>).Authorization).toBeUndefined();
+  });
+
+  it("lifts the system prompt for Anthropic and reads text blocks", () => {
+    const { url, init } = PROVIDERS.anthropic.buildRequest(messages, { provider: "anthropic", apiKey: "key" }, { model: "claude" });
+    const body = JSON.parse(init.body as string);
+    expect(url).toBe("https://api.anthropic.com/v1/messages");
+    expect(body.system).toBe("sys");
+    expect(body.messages).toEqual([{ role: "user", content: "{}" }]);
+    expect((init.headers as Record<string, string>)["x-api-key"]).toBe("key");
+
+    const text = PROVIDERS.anthropic.parseResponse({ content: [{ type: "text", text: " A prompt. " }] });
+    expect(text).toBe("A prompt.");
+  });
+
+  it("reads token usage from responses and stream events", () => {
+    expect(PROVIDERS.openai.parseUsage({ usage: { prompt_tokens: 120, completion_tokens: 45 } })).toEqual({ promptTokens: 120, completionTokens: 45 });
+    expect(PROVIDERS.openai.parseUsage({ choices: [] })).toBeNull();
+    expect(PROVIDERS.openai.parseStreamUsage({ choices: [], usage: null })).toBeNull();
+    expect(PROVIDERS.anthropic.parseUsage({ usage: { input_tokens: 80, output_tokens: 30 } })).toEqual({ promptTokens: 80, completionTokens: 30 });
+    expect(PROVIDERS.anthropic.parseStreamUsage({ type: "message_start", message: { usage: { input_tokens: 80, output_tokens: 1 } } }))
+      .toEqual({ promptTokens: 80, completionTokens: 1 });
+    expect(PROVIDERS.anthropic.parseStreamUsage({ type: "message_delta", usage: { output_tokens: 30 } })).toEqual({ completionTokens: 30 });
+
+    const { init } = PROVIDERS.openai.buildRequest(messages, { provider: "openai", apiKey: "k" }, { model: "m", stream: true });
+    expect(JSON.parse(init.body as string).stream_options).toEqual({ include_usage: true });
+    const compatible = PROVIDERS["openai-compatible"].buildRequest(messages, { provider: "openai-compatible" }, { model: "m", stream: true });
+    expect(JSON.parse(compatible.init.body as string).stream_options).toBeUndefined();
+  });
+
+  it("requests structured output as a JSON schema or a forced tool call", () => {
+    const responseSchema = { name: "prompt_fields", schema: { type: "object", properties: { prompt: { type: "string" } } } };
+    const openai = JSON.parse(PROVIDERS.openai.buildRequest(messages, { provider: "openai" }, { model: "m", responseSchema }).init.body as string);
+    expect(openai.response_format).toEqual({ type: "json_schema", json_schema: { ...responseSchema, strict: true } });
+
+    const anthropic = JSON.parse(PROVIDERS.anthropic.buildRequest(messages, { provider: "anthropic" }, { model: "m", responseSchema }).init.body as string);
+    expect(anthropic.tools[0]).toMatchObject({ name: "prompt_fields", input_schema: responseSchema.schema });
+    expect(anthropic.tool_choice).toEqual({ type: "tool", name: "prompt_fields" });
+    expect(PROVIDERS.anthropic.parseResponse({ content: [{ type: "tool_use", input: { prompt: "A" } }] })).toBe('{"prompt":"A"}');
+    expect(PROVIDERS.anthropic.parseStreamEvent({ type: "content_block_delta", delta: { type: "input_json_delta", partial_json: '{"pro' } })).toBe('{"pro');
+  });
+
+  it("falls back to OpenAI for unknown provider ids", () => {
+    expect(getProvider("nope").id).toBe("openai");
+    expect(getProvider(undefined).id).toBe("openai");
+  });
+});
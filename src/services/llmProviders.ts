@@ -0,0 +1,227 @@
+/**
+ * LLM provider adapters: each provider knows how to build its HTTP request
+ * (endpoint, auth scheme, body shape) and how to read the text back out of
+ * its response.
+ */
+
+export type ProviderId = "openai" | "openai-compatible" | "anthropic";
+
+export interface ChatMessage {
+  role: string;
+  content: string;
+}
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  // Overrides the provider's default base URL (e.g. a local Ollama server)
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+// Tokens billed for one request, as reported by the provider
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ProviderRequestOptions {
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a server-sent event stream instead of a single JSON body
+  stream?: boolean;
+  // Ask for a JSON reply matching this schema (see utils/structuredOutput)
+  responseSchema?: ResponseSchema;
+}
+
+export interface ResponseSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface ProviderRequest {
+  url: string;
+  init: RequestInit;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  label: string;
+  defaultBaseUrl: string;
+  requiresApiKey: boolean;
+  // Suggested model names for the Run Controls
+  models: string[];
+  buildRequest(messages: ChatMessage[], settings: ProviderSettings, options: ProviderRequestOptions): ProviderRequest;
+  parseResponse(data: any): string;
+  // Text delta carried by one parsed SSE `data:` event ("" for non-text events)
+  parseStreamEvent(data: any): string;
+  // Token usage of a full response (null when the server reports none)
+  parseUsage(data: any): TokenUsage | null;
+  // Usage counts carried by one SSE event; later events overwrite the fields they carry
+  parseStreamUsage(data: any): Partial<TokenUsage> | null;
+}
+
+function joinUrl(baseUrl: string, path: string) {
+  return `${baseUrl.replace(/\/+$/, "")}${path}`;
+}
+
+function buildOpenAIRequest(
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  settings: ProviderSettings,
+  options: ProviderRequestOptions,
+  // OpenAI only reports usage in a final stream chunk when asked to; other servers may reject the field
+  streamUsage = false
+): ProviderRequest {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+
+  const body: Record<string, unknown> = {
+    model: options.model,
+    messages,
+    temperature: options.temperature ?? 0.7,
+  };
+  if (options.maxTokens) body.max_tokens = options.maxTokens;
+  if (options.responseSchema) {
+    body.response_format = { type: "json_schema", json_schema: { ...options.responseSchema, strict: true } };
+  }
+  if (options.stream) {
+    body.stream = true;
+    if (streamUsage) body.stream_options = { include_usage: true };
+  }
+
+  return {
+    url: joinUrl(settings.baseUrl || provider.defaultBaseUrl, "/chat/completions"),
+    init: { method: "POST", headers, body: JSON.stringify(body) },
+  };
+}
+
+function parseOpenAIResponse(data: any): string {
+  return data?.choices?.[0]?.message?.content?.trim?.() || "";
+}
+
+function parseOpenAIStreamEvent(data: any): string {
+  return data?.choices?.[0]?.delta?.content || "";
+}
+
+function parseOpenAIUsage(data: any): TokenUsage | null {
+  const usage = data?.usage;
+  if (!usage || typeof usage !== "object") return null;
+  return { promptTokens: Number(usage.prompt_tokens) || 0, completionTokens: Number(usage.completion_tokens) || 0 };
+}
+
+const openAIProvider: LLMProvider = {
+  id: "openai",
+  label: "OpenAI",
+  defaultBaseUrl: "https://api.openai.com/v1",
+  requiresApiKey: true,
+  models: ["gpt-4o-mini", "gpt-4o", "gpt-4.1-mini"],
+  buildRequest(messages, settings, options) {
+    return buildOpenAIRequest(openAIProvider, messages, settings, options, true);
+  },
+  parseResponse: parseOpenAIResponse,
+  parseStreamEvent: parseOpenAIStreamEvent,
+  parseUsage: parseOpenAIUsage,
+  parseStreamUsage: parseOpenAIUsage,
+};
+
+const openAICompatibleProvider: LLMProvider = {
+  id: "openai-compatible",
+  label: "OpenAI-compatible (local)",
+  // Ollama's default; LM Studio uses :1234/v1 and llama.cpp :8080/v1
+  defaultBaseUrl: "http://localhost:11434/v1",
+  requiresApiKey: false,
+  models: ["llama3.1", "mistral", "qwen2.5"],
+  buildRequest(messages, settings, options) {
+    return buildOpenAIRequest(openAICompatibleProvider, messages, settings, options);
+  },
+  parseResponse: parseOpenAIResponse,
+  parseStreamEvent: parseOpenAIStreamEvent,
+  parseUsage: parseOpenAIUsage,
+  parseStreamUsage: parseOpenAIUsage,
+};
+
+const anthropicProvider: LLMProvider = {
+  id: "anthropic",
+  label: "Anthropic",
+  defaultBaseUrl: "https://api.anthropic.com/v1",
+  requiresApiKey: true,
+  models: ["claude-3-5-haiku-latest", "claude-3-5-sonnet-latest"],
+  buildRequest(messages, settings, options) {
+    // The messages API takes the system prompt as a top-level field
+    const system = messages
+      .filter((m) => m.role === "system")
+      .map((m) => m.content)
+      .join("\n\n");
+    const body: Record<string, unknown> = {
+      model: options.model,
+      messages: messages.filter((m) => m.role !== "system"),
+      max_tokens: options.maxTokens ?? 1024,
+      temperature: options.temperature ?? 0.7,
+    };
+    if (system) body.system = system;
+    if (options.stream) body.stream = true;
+    // No JSON mode: a forced tool call returns the fields as the tool's input
+    if (options.responseSchema) {
+      body.tools = [{ name: options.responseSchema.name, input_schema: options.responseSchema.schema }];
+      body.tool_choice = { type: "tool", name: options.responseSchema.name };
+    }
+
+    return {
+      url: joinUrl(settings.baseUrl || anthropicProvider.defaultBaseUrl, "/messages"),
+      init: {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": settings.apiKey || "",
+          "anthropic-version": "2023-06-01",
+          // Required for calls made straight from the browser
+          "anthropic-dangerous-direct-browser-access": "true",
+        },
+        body: JSON.stringify(body),
+      },
+    };
+  },
+  parseResponse(data) {
+    const blocks: any[] = Array.isArray(data?.content) ? data.content : [];
+    const toolUse = blocks.find((block) => block?.type === "tool_use");
+    if (toolUse) return JSON.stringify(toolUse.input ?? {});
+    return blocks
+      .filter((block) => block?.type === "text")
+      .map((block) => block.text || "")
+      .join("")
+      .trim();
+  },
+  parseStreamEvent(data) {
+    // Text deltas, or the JSON of a forced tool call
+    return data?.type === "content_block_delta" ? data.delta?.text || data.delta?.partial_json || "" : "";
+  },
+  parseUsage(data) {
+    const usage = data?.usage;
+    if (!usage || typeof usage !== "object") return null;
+    return { promptTokens: Number(usage.input_tokens) || 0, completionTokens: Number(usage.output_tokens) || 0 };
+  },
+  parseStreamUsage(data) {
+    // Input tokens arrive with message_start; message_delta carries the running output count
+    const usage = data?.type === "message_start" ? data.message?.usage : data?.type === "message_delta" ? data.usage : null;
+    if (!usage || typeof usage !== "object") return null;
+    const partial: Partial<TokenUsage> = {};
+    if (typeof usage.input_tokens === "number") partial.promptTokens = usage.input_tokens;
+    if (typeof usage.output_tokens === "number") partial.completionTokens = usage.output_tokens;
+    return partial;
+  },
+};
+
+export const PROVIDERS: Record<ProviderId, LLMProvider> = {
+  openai: openAIProvider,
+  "openai-compatible": openAICompatibleProvider,
+  anthropic: anthropicProvider,
+};
+
+/**
+ * Look up a provider by id, falling back to OpenAI for unknown values
+ * (e.g. presets saved before providers existed).
+ */
+export function getProvider(id?: string): LLMProvider {
+  return PROVIDERS[id as ProviderId] ?? openAIProvider;
+}
@@ -0,0 +1,46 @@
+/**
+ * Preset name rules, shared by the preset server and browser storage.
+ */
+
+export const MAX_PRESET_NAME_LENGTH = 64;
+
+// Letters, digits, spaces, `-`, `_` and `.`; must start with a letter or digit
+const PRESET_NAME = /^[\p{L}\p{N}][\p{L}\p{N} ._-]*$/u;
+
+export class PresetNameError extends Error {
+  name = "PresetNameError";
+}
+
+/**
+ * Validate and normalise a preset name: trimmed, inner whitespace collapsed,
+ * no `.json` suffix. Anything that could leave the presets folder is rejected.
+ */
+export function normalizePresetName(name: unknown): string {
+  const normalized = (typeof name === "string" ? name : "")
+    .normalize("NFC")
+    .trim()
+    .replace(/\.json$/i, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!normalized) throw new PresetNameError("Preset name is required");
+  if (normalized.length > MAX_PRESET_NAME_LENGTH) {
+    throw new PresetNameError(`Preset name is longer than ${MAX_PRESET_NAME_LENGTH} characters`);
+  }
+  if (!PRESET_NAME.test(normalized)) {
+    throw new PresetNameError(
+      `Invalid preset name "${normalized}": use letters, digits, spaces, "-", "_" or "." and start with a letter or digit`
+    );
+  }
+  return normalized;
+}
+
+export function samePresetName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Thrown when a save, rename or duplicate would replace another preset without `overwrite`
+ */
+export class PresetExistsError extends Error {
+  name = "PresetExistsError";
+}
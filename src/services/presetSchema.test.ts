@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { CURRENT_SCHEMA_VERSION, detectSchemaVersion, parsePreset, PresetValidationError } from "./presetSchema";
+
+const bundledPresets = import.meta.glob("../presets/*.json", { eager: true, import: "default" });
+
+const defaults = { model: "gpt-4o-mini", seed: -1, batch: 1, concurrency: 4 };
+
+describe("preset schema", () => {
+  it("detects the version of unversioned files from their shape", () => {
+    expect(detectSchemaVersion({ sectionTitles: {}, lists: {} })).toBe(0);
+    expect(detectSchemaVersion({ sections: [{ title: "Pre" }] })).toBe(1);
+    expect(detectSchemaVersion({ schemaVersion: 2, sections: [] })).toBe(2);
+  });
+
+  it("migrates legacy presets through every step", () => {
+    const preset = parsePreset({ instructions: "legacy", lists: { pre: "one" }, defaults });
+    expect(preset.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(preset.sections).toHaveLength(8);
+    expect(preset.sections![0]).toMatchObject({ id: "section1", title: "Pre", list: "one", samplingMode: "random" });
+    expect(preset).not.toHaveProperty("lists");
+  });
+
+  it("fills settings missing from v1 files", () => {
+    const preset = parsePreset({ sections: [{ id: "a", title: " Lens ", list: "35mm", selections: [], isRandomized: true }] });
+    expect(preset.instructions).toBe("");
+    expect(preset.defaults).toEqual(defaults);
+    expect(preset.sections![0]).toMatchObject({ title: "Lens", pickCount: { min: 1, max: 1 }, joinStyle: "comma" });
+  });
+
+  it("rewrites v2 list weights with a double colon", () => {
+    const preset = parsePreset({
+      schemaVersion: 2,
+      instructions: "",
+      sections: [{ id: "a", title: "Weather", list: "Overcast:3, Stormy: 0.5\n{Foggy:2|Clear}, Rain", selections: [], isRandomized: true }],
+      defaults,
+    });
+    expect(preset.sections![0].list).toBe("Overcast::3, Stormy::0.5\n{Foggy::2|Clear}, Rain");
+  });
+
+  it("names the fields that fail validation", () => {
+    const bad = {
+      schemaVersion: 2,
+      instructions: "x",
+      sections: [{ id: "a", title: "Lens", list: 35, selections: [], isRandomized: true }],
+      rules: [{ id: "r", whenSection: "Lens", whenValues: [], thenSection: "Lens", effect: "forbids", values: [] }],
+      outputConstraints: { maxWords: 200, forbiddenTerms: "ethereal" },
+      defaults: { ...defaults, batch: 0 },
+    };
+    try {
+      parsePreset(bad, "HWS14");
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(PresetValidationError);
+      expect((error as PresetValidationError).issues).toEqual([
+        "sections[0].list: expected a string, got 35",
+        "rules[0].effect: expected one of excludes, requires, got \"forbids\"",
+        "outputConstraints.forbiddenTerms: expected a list, got \"ethereal\"",
+        "defaults.batch: must be at least 1, got 0",
+      ]);
+      expect((error as Error).message).toMatch(/^Preset "HWS14" is invalid: sections\[0\]\.list/);
+    }
+  });
+
+  it("accepts every bundled preset", () => {
+    expect(Object.keys(bundledPresets).length).toBeGreaterThan(0);
+    Object.entries(bundledPresets).forEach(([file, raw]) => {
+      expect(() => parsePreset(raw, file)).not.toThrow();
+    });
+  });
+
+  it("rejects files from a newer version of the app", () => {
+    expect(() => parsePreset({ schemaVersion: 99 })).toThrow(/schemaVersion: 99 is newer/);
+    expect(() => parsePreset([])).toThrow(/expected an object/);
+  });
+});
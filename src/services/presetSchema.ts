@@ -0,0 +1,336 @@
+/**
+ * Preset file schema: versioning, migrations and validation.
+ *
+ * Every preset carries a `schemaVersion`. Files are upgraded through an ordered chain of
+ * migrations (files without a version are detected from their shape), then validated
+ * against PRESET_SCHEMA. Problems are reported per field, e.g. `sections[2].list: expected a string`.
+ */
+import type { PresetData, SectionData } from "./presetService";
+import { normalizeSamplingMode, SAMPLING_MODES } from "../utils/randomPicker";
+import { normalizeJoinStyle, normalizePickCount } from "../utils/payloadBuilder";
+
+export const CURRENT_SCHEMA_VERSION = 3;
+
+export class PresetValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[], presetName?: string) {
+    const subject = presetName ? `Preset "${presetName}"` : "Preset";
+    super(`${subject} is invalid: ${issues.join("; ")}`);
+    this.name = "PresetValidationError";
+    this.issues = issues;
+  }
+}
+
+// ---------------------------------------------
+// Schema
+// ---------------------------------------------
+
+export type FieldSchema = (
+  | { type: "string" }
+  | { type: "number"; integer?: boolean; min?: number }
+  | { type: "boolean" }
+  | { type: "enum"; values: readonly string[] }
+  | { type: "array"; items: FieldSchema }
+  | { type: "object"; fields: Record<string, FieldSchema> }
+) & { optional?: boolean };
+
+const string: FieldSchema = { type: "string" };
+const stringList: FieldSchema = { type: "array", items: string };
+const optional = (schema: FieldSchema): FieldSchema => ({ ...schema, optional: true });
+
+const SECTION_SCHEMA: FieldSchema = {
+  type: "object",
+  fields: {
+    id: string,
+    title: string,
+    list: string,
+    selections: stringList,
+    isRandomized: { type: "boolean" },
+    samplingMode: optional({ type: "enum", values: SAMPLING_MODES }),
+    isHidden: optional({ type: "boolean" }),
+    pickCount: optional({
+      type: "object",
+      fields: { min: { type: "number", integer: true, min: 0 }, max: { type: "number", integer: true, min: 1 } },
+    }),
+    joinStyle: optional({ type: "enum", values: ["comma", "array"] }),
+  },
+};
+
+const RULE_SCHEMA: FieldSchema = {
+  type: "object",
+  fields: {
+    id: string,
+    whenSection: string,
+    whenValues: stringList,
+    thenSection: string,
+    effect: { type: "enum", values: ["excludes", "requires"] },
+    values: stringList,
+  },
+};
+
+const wholeNumber = (min: number): FieldSchema => optional({ type: "number", integer: true, min });
+
+const OUTPUT_CONSTRAINTS_SCHEMA: FieldSchema = {
+  type: "object",
+  fields: {
+    minWords: wholeNumber(0),
+    maxWords: wholeNumber(0),
+    singleLine: optional({ type: "boolean" }),
+    forbiddenTerms: optional(stringList),
+    requiredPrefix: optional(string),
+    requiredSuffix: optional(string),
+    repairAttempts: wholeNumber(0),
+  },
+};
+
+const OUTPUT_FIELD_SCHEMA: FieldSchema = {
+  type: "object",
+  fields: { name: string, description: optional(string) },
+};
+
+export const PRESET_SCHEMA: FieldSchema = {
+  type: "object",
+  fields: {
+    schemaVersion: { type: "number", integer: true, min: 0 },
+    instructions: string,
+    sections: { type: "array", items: SECTION_SCHEMA },
+    rules: optional({ type: "array", items: RULE_SCHEMA }),
+    outputTemplate: optional(string),
+    outputConstraints: optional(OUTPUT_CONSTRAINTS_SCHEMA),
+    outputFields: optional({ type: "array", items: OUTPUT_FIELD_SCHEMA }),
+    defaults: {
+      type: "object",
+      fields: {
+        model: string,
+        seed: { type: "number", integer: true },
+        batch: { type: "number", integer: true, min: 1 },
+        concurrency: { type: "number", integer: true, min: 1 },
+        provider: optional({ type: "enum", values: ["openai", "openai-compatible", "anthropic"] }),
+        baseUrl: optional(string),
+        runMode: optional({ type: "enum", values: ["llm", "local"] }),
+      },
+    },
+  },
+};
+
+function describeValue(value: unknown) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  return typeof value === "string" ? `"${value}"` : typeof value === "object" ? "an object" : String(value);
+}
+
+/**
+ * Check a value against a schema; returns one message per problem, prefixed with the field path.
+ * Unknown fields are allowed.
+ */
+export function validateAgainst(schema: FieldSchema, value: unknown, path = "preset"): string[] {
+  if (value === undefined) return schema.optional ? [] : [`${path}: is required`];
+
+  switch (schema.type) {
+    case "string":
+      return typeof value === "string" ? [] : [`${path}: expected a string, got ${describeValue(value)}`];
+    case "boolean":
+      return typeof value === "boolean" ? [] : [`${path}: expected true or false, got ${describeValue(value)}`];
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) return [`${path}: expected a number, got ${describeValue(value)}`];
+      if (schema.integer && !Number.isInteger(value)) return [`${path}: expected a whole number, got ${value}`];
+      if (schema.min !== undefined && value < schema.min) return [`${path}: must be at least ${schema.min}, got ${value}`];
+      return [];
+    case "enum":
+      return schema.values.includes(value as string)
+        ? []
+        : [`${path}: expected one of ${schema.values.join(", ")}, got ${describeValue(value)}`];
+    case "array":
+      if (!Array.isArray(value)) return [`${path}: expected a list, got ${describeValue(value)}`];
+      return value.flatMap((item, index) => validateAgainst(schema.items, item, `${path}[${index}]`));
+    case "object":
+      if (!value || typeof value !== "object" || Array.isArray(value)) return [`${path}: expected an object, got ${describeValue(value)}`];
+      return Object.entries(schema.fields).flatMap(([key, field]) =>
+        validateAgainst(field, (value as Record<string, unknown>)[key], path === "preset" ? key : `${path}.${key}`)
+      );
+  }
+}
+
+/**
+ * Problems with a preset in the current schema version (empty when valid)
+ */
+export function validatePreset(data: unknown): string[] {
+  return validateAgainst(PRESET_SCHEMA, data);
+}
+
+// ---------------------------------------------
+// Migrations
+// ---------------------------------------------
+
+interface Migration {
+  // Version the migration produces; it runs on presets at `to - 1`
+  to: number;
+  description: string;
+  migrate: (preset: any) => any;
+}
+
+type LegacySectionConfig = {
+  sectionKey: string;
+  legacyKey: string;
+  fallbackTitle: string;
+  isRandomized: boolean;
+};
+
+const LEGACY_SECTIONS: LegacySectionConfig[] = [
+  { sectionKey: "section1", legacyKey: "pre", fallbackTitle: "Pre", isRandomized: true },
+  { sectionKey: "section2", legacyKey: "composition", fallbackTitle: "Composition", isRandomized: true },
+  { sectionKey: "section3", legacyKey: "environment", fallbackTitle: "Environment", isRandomized: true },
+  { sectionKey: "section4", legacyKey: "time", fallbackTitle: "Time of Day", isRandomized: true },
+  { sectionKey: "section5", legacyKey: "weather", fallbackTitle: "Weather / Atmosphere", isRandomized: true },
+  { sectionKey: "section6", legacyKey: "lighting", fallbackTitle: "Lighting", isRandomized: true },
+  { sectionKey: "section7", legacyKey: "lens", fallbackTitle: "Lens", isRandomized: true },
+  { sectionKey: "section8", legacyKey: "post", fallbackTitle: "Post", isRandomized: false },
+];
+
+/**
+ * v0 → v1: fixed `sectionTitles` / `lists` maps become the ordered `sections` array.
+ */
+function migrateLegacySections(preset: any) {
+  const { sectionTitles, lists, ...rest } = preset;
+  const titles = sectionTitles ?? {};
+  const normalizedLists = Object.entries(lists ?? {}).reduce<Record<string, string>>((acc, [key, value]) => {
+    if (typeof value === "string") {
+      acc[key.toLowerCase()] = value;
+    }
+    return acc;
+  }, {});
+
+  const sections = LEGACY_SECTIONS.map((config) => {
+    const configuredTitle = typeof titles[config.sectionKey] === "string" ? titles[config.sectionKey].trim() : "";
+    const title = configuredTitle || config.fallbackTitle;
+
+    const candidateKeys = [config.legacyKey, title, config.sectionKey];
+    const list = candidateKeys
+      .map((candidate) => normalizedLists[candidate.toLowerCase()])
+      .find(Boolean) || "";
+
+    return {
+      id: config.sectionKey,
+      title,
+      list,
+      selections: [],
+      isRandomized: config.isRandomized,
+    };
+  });
+
+  return { ...rest, sections };
+}
+
+/**
+ * Fill a section's optional settings with their defaults. Values of the wrong type are
+ * left in place so validation can report them.
+ */
+export function normalizeSection(section: any, index: number): SectionData {
+  if (!section || typeof section !== "object") return section;
+  const title = typeof section.title === "string" ? section.title.trim() : section.title;
+  return {
+    ...section,
+    id: section.id || `section-${index + 1}`,
+    title: title || `Section ${index + 1}`,
+    list: section.list ?? "",
+    selections: section.selections ?? [],
+    isRandomized: Boolean(section.isRandomized),
+    samplingMode: normalizeSamplingMode(section.samplingMode),
+    isHidden: Boolean(section.isHidden),
+    pickCount: normalizePickCount(section.pickCount),
+    joinStyle: normalizeJoinStyle(section.joinStyle),
+  };
+}
+
+const DEFAULT_SETTINGS = { model: "gpt-4o-mini", seed: -1, batch: 1, concurrency: 4 };
+
+/**
+ * v1 → v2: sections get explicit sampling / pick settings, and missing
+ * instructions or default settings are filled in.
+ */
+function migrateSectionSettings(preset: any) {
+  return {
+    ...preset,
+    instructions: preset.instructions ?? "",
+    sections: Array.isArray(preset.sections) ? preset.sections.map(normalizeSection) : preset.sections,
+    defaults:
+      preset.defaults && typeof preset.defaults === "object" ? { ...DEFAULT_SETTINGS, ...preset.defaults } : preset.defaults ?? DEFAULT_SETTINGS,
+  };
+}
+
+// A list entry (or alternation choice) weighted the v2 way, "Overcast:3"
+const V2_WEIGHT = /^(\s*.*\S)\s*:\s*(\d+(?:\.\d+)?)(\s*)$/;
+
+/**
+ * v2 → v3: list weights are written `Overcast::3` instead of `Overcast:3`, so entries
+ * such as "aspect 16:9" can be plain text. Entries v2 read as weighted keep their weight.
+ */
+function migrateWeightSyntax(preset: any) {
+  if (!Array.isArray(preset.sections)) return preset;
+  return {
+    ...preset,
+    sections: preset.sections.map((section: any) =>
+      typeof section?.list === "string"
+        ? {
+            ...section,
+            list: section.list
+              .split(/([\n,{}|])/g)
+              .map((part: string) => part.replace(V2_WEIGHT, "$1::$2$3"))
+              .join(""),
+          }
+        : section
+    ),
+  };
+}
+
+const MIGRATIONS: Migration[] = [
+  { to: 1, description: "Legacy section maps to a sections list", migrate: migrateLegacySections },
+  { to: 2, description: "Explicit section settings and defaults", migrate: migrateSectionSettings },
+  { to: 3, description: "Double-colon list weights", migrate: migrateWeightSyntax },
+];
+
+/**
+ * Schema version of a raw preset. Unversioned files with a non-empty `sections` list
+ * are v1; anything else unversioned is the legacy v0 format.
+ */
+export function detectSchemaVersion(raw: any): number {
+  if (typeof raw?.schemaVersion === "number") return raw.schemaVersion;
+  return Array.isArray(raw?.sections) && raw.sections.length ? 1 : 0;
+}
+
+/**
+ * Run every migration newer than the preset's version. Does not validate.
+ */
+export function migratePreset(raw: any): PresetData {
+  const version = detectSchemaVersion(raw);
+  return MIGRATIONS.filter((migration) => migration.to > version).reduce(
+    (preset, migration) => ({ ...migration.migrate(preset), schemaVersion: migration.to }),
+    raw
+  );
+}
+
+/**
+ * Migrate and validate a raw preset (e.g. parsed JSON from a file).
+ * Throws PresetValidationError naming each bad field.
+ */
+export function parsePreset(raw: unknown, presetName?: string): PresetData {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new PresetValidationError([`preset: expected an object, got ${describeValue(raw)}`], presetName);
+  }
+  const version = (raw as PresetData).schemaVersion;
+  if (version !== undefined && (!Number.isInteger(version) || version < 0)) {
+    throw new PresetValidationError([`schemaVersion: expected a whole number, got ${describeValue(version)}`], presetName);
+  }
+  if (typeof version === "number" && version > CURRENT_SCHEMA_VERSION) {
+    throw new PresetValidationError(
+      [`schemaVersion: ${version} is newer than this app supports (${CURRENT_SCHEMA_VERSION})`],
+      presetName
+    );
+  }
+
+  const preset = migratePreset(raw);
+  const issues = validatePreset(preset);
+  if (issues.length) throw new PresetValidationError(issues, presetName);
+  return preset;
+}
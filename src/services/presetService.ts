@@ -1,6 +1,19 @@
 /**
  * Service for managing presets and API operations
  */
+import type { ProviderId } from "./llmProviders";
+import type { SamplingMode } from "../utils/randomPicker";
+import type { ConstraintRule } from "../utils/constraints";
+import type { JoinStyle, PickCount } from "../utils/payloadBuilder";
+import type { OutputConstraints } from "../utils/outputConstraints";
+import type { OutputField } from "../utils/structuredOutput";
+import { CURRENT_SCHEMA_VERSION, migratePreset, normalizeSection, parsePreset, PresetValidationError, validatePreset } from "./presetSchema";
+import { PresetExistsError } from "./presetNames";
+import { createBrowserPresetStore } from "./browserPresets";
+
+export { PresetExistsError };
+
+export type RunMode = "llm" | "local";
 
 export interface SectionData {
   id: string;
@@ -8,13 +21,30 @@ export interface SectionData {
   list: string;
   selections: string[];
   isRandomized: boolean;
+  // How the section draws across a batch (defaults to "random")
+  samplingMode?: SamplingMode;
+  // Library-only list: left out of the payload, drawn through `__Title__` references
+  isHidden?: boolean;
+  // Values drawn per item (defaults to exactly one) and how several are written
+  pickCount?: PickCount;
+  joinStyle?: JoinStyle;
 }
 
 export interface PresetData {
+  // File format version (see presetSchema); absent in files saved before versioning
+  schemaVersion?: number;
   instructions: string;
   // New format
   sections?: SectionData[];
-  // Old format (for backward compatibility)
+  // Cross-section rules applied while drawing payloads
+  rules?: ConstraintRule[];
+  // Local output template for "Render locally" runs (see utils/templateRenderer)
+  outputTemplate?: string;
+  // Checks on every generated prompt, with optional corrective re-sends (see utils/outputConstraints)
+  outputConstraints?: OutputConstraints;
+  // Ask for a JSON reply with these fields instead of free text (see utils/structuredOutput)
+  outputFields?: OutputField[];
+  // Old format (schema v0), migrated into `sections` on load
   sectionTitles?: Record<string, string>;
   lists?: Record<string, string>;
   defaults: {
@@ -22,101 +52,169 @@ export interface PresetData {
     seed: number;
     batch: number;
     concurrency: number;
+    // LLM provider (defaults to OpenAI when absent)
+    provider?: ProviderId;
+    baseUrl?: string;
+    // "llm" sends payloads to the provider; "local" fills the output template
+    runMode?: RunMode;
   };
 }
 
-type LegacySectionConfig = {
-  sectionKey: string;
-  legacyKey: string;
-  fallbackTitle: string;
-  isRandomized: boolean;
-};
-
-const LEGACY_SECTIONS: LegacySectionConfig[] = [
-  { sectionKey: "section1", legacyKey: "pre", fallbackTitle: "Pre", isRandomized: true },
-  { sectionKey: "section2", legacyKey: "composition", fallbackTitle: "Composition", isRandomized: true },
-  { sectionKey: "section3", legacyKey: "environment", fallbackTitle: "Environment", isRandomized: true },
-  { sectionKey: "section4", legacyKey: "time", fallbackTitle: "Time of Day", isRandomized: true },
-  { sectionKey: "section5", legacyKey: "weather", fallbackTitle: "Weather / Atmosphere", isRandomized: true },
-  { sectionKey: "section6", legacyKey: "lighting", fallbackTitle: "Lighting", isRandomized: true },
-  { sectionKey: "section7", legacyKey: "lens", fallbackTitle: "Lens", isRandomized: true },
-  { sectionKey: "section8", legacyKey: "post", fallbackTitle: "Post", isRandomized: false },
-];
-
 /**
  * Normalize preset sections, migrating legacy structures when necessary.
  */
 export function resolvePresetSections(preset: PresetData): SectionData[] {
-  if (Array.isArray(preset.sections) && preset.sections.length) {
-    return preset.sections.map((section, index) => ({
-      id: section.id || `section-${index + 1}`,
-      title: section.title?.trim() || `Section ${index + 1}`,
-      list: section.list || "",
-      selections: Array.isArray(section.selections) ? section.selections : [],
-      isRandomized: Boolean(section.isRandomized),
-    }));
-  }
+  const { sections } = migratePreset(preset);
+  return (sections || []).map(normalizeSection);
+}
 
-  const titles = preset.sectionTitles ?? {};
-  const lists = preset.lists ?? {};
-  const normalizedLists = Object.entries(lists).reduce<Record<string, string>>((acc, [key, value]) => {
-    if (typeof value === "string") {
-      acc[key.toLowerCase()] = value;
-    }
-    return acc;
-  }, {});
-
-  return LEGACY_SECTIONS.map((config) => {
-    const configuredTitle = titles[config.sectionKey]?.trim();
-    const title = configuredTitle || config.fallbackTitle;
-
-    const candidateKeys = [
-      config.legacyKey,
-      config.legacyKey.toLowerCase(),
-      config.legacyKey.toUpperCase(),
-      title,
-      title.toLowerCase(),
-      title.toUpperCase(),
-      config.sectionKey,
-    ];
-
-    const list = candidateKeys.reduce<string | undefined>((found, candidate) => {
-      if (found) return found;
-      if (!candidate) return undefined;
-      const lookupKey = candidate.toLowerCase();
-      return normalizedLists[lookupKey];
-    }, undefined) || "";
+// ---------------------------------------------
+// Preset storage
+// ---------------------------------------------
 
-    return {
-      id: config.sectionKey,
-      title,
-      list,
-      selections: [],
-      isRandomized: config.isRandomized,
-    };
+export interface PresetRevision {
+  id: string;
+  timestamp: number;
+  size: number;
+}
+
+/**
+ * Where presets are read from and written to. Raw data is returned unparsed;
+ * names are normalised by the backend and returned as stored.
+ */
+export interface PresetBackend {
+  kind: "server" | "browser";
+  list(): Promise<string[]>;
+  // Raw preset data, or null when there is no such preset
+  load(name: string): Promise<unknown | null>;
+  // Throws PresetExistsError when the name belongs to another preset and `overwrite` is false
+  save(name: string, data: PresetData, overwrite: boolean): Promise<string>;
+  rename(from: string, to: string, overwrite: boolean): Promise<string>;
+  duplicate(from: string, to: string, overwrite: boolean): Promise<string>;
+  remove(name: string): Promise<void>;
+  listRevisions(name: string): Promise<PresetRevision[]>;
+  getRevision(name: string, id: string): Promise<unknown>;
+  restoreRevision(name: string, id: string): Promise<unknown>;
+}
+
+// Presets compiled into the build, by name
+export const BUNDLED_PRESETS: Record<string, unknown> = Object.fromEntries(
+  Object.entries(import.meta.glob("../presets/*.json", { eager: true, import: "default" })).map(([file, data]) => [
+    file.replace(/^.*\/(.*)\.json$/, "$1"),
+    data,
+  ])
+);
+
+async function requestJson(url: string, init?: RequestInit): Promise<any> {
+  const response = await fetch(url, init);
+  const text = await response.text();
+  const result = text ? JSON.parse(text) : {};
+  if (response.status === 409) {
+    throw new PresetExistsError(result.error || 'Preset already exists');
+  }
+  if (!response.ok || result.success === false) {
+    throw new Error(result.error || `HTTP error! status: ${response.status}`);
+  }
+  return result;
+}
+
+function postJson(url: string, body: unknown): Promise<any> {
+  return requestJson(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
   });
 }
 
+const query = (params: Record<string, string>) => new URLSearchParams(params).toString();
+
+/**
+ * The preset API of the dev server or of `server/index.ts`
+ */
+const serverBackend: PresetBackend = {
+  kind: "server",
+  async list() {
+    const result = await requestJson('/api/presets/list');
+    return result.presets || [];
+  },
+  async load(name) {
+    const response = await fetch(`/api/presets/get?${query({ name })}`);
+    if (response.status === 404) return null;
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || `HTTP error! status: ${response.status}`);
+    return result.data;
+  },
+  async save(name, data, overwrite) {
+    const result = await postJson('/api/presets/save', { name, data, overwrite });
+    return result.name || name;
+  },
+  async rename(from, to, overwrite) {
+    const result = await postJson('/api/presets/rename', { from, to, overwrite });
+    return result.name;
+  },
+  async duplicate(from, to, overwrite) {
+    const result = await postJson('/api/presets/duplicate', { from, to, overwrite });
+    return result.name;
+  },
+  async remove(name) {
+    await postJson('/api/presets/delete', { name });
+  },
+  async listRevisions(name) {
+    const result = await requestJson(`/api/presets/revisions?${query({ name })}`);
+    return result.revisions || [];
+  },
+  async getRevision(name, id) {
+    const result = await requestJson(`/api/presets/revision?${query({ name, id })}`);
+    return result.data;
+  },
+  async restoreRevision(name, id) {
+    const result = await postJson('/api/presets/restore', { name, id });
+    return result.data;
+  },
+};
+
+let backendPromise: Promise<PresetBackend> | null = null;
+
+/**
+ * Use the preset API when the app is served with one (dev server or `server/index.ts`);
+ * a static build falls back to bundled presets plus browser storage.
+ */
+export function getPresetBackend(): Promise<PresetBackend> {
+  if (!backendPromise) {
+    backendPromise = (async () => {
+      try {
+        const response = await fetch('/api/presets/list');
+        if (response.ok && response.headers.get('content-type')?.includes('application/json')) {
+          return serverBackend;
+        }
+      } catch (error) {
+        console.warn('Preset API unreachable:', error);
+      }
+      console.log('No preset API: using bundled presets and browser storage');
+      return createBrowserPresetStore(window.localStorage, BUNDLED_PRESETS);
+    })();
+  }
+  return backendPromise;
+}
+
 /**
- * Load a preset from the local presets folder
+ * Load a preset, migrated to the current schema.
+ * Resolves null when the preset does not exist; throws PresetValidationError
+ * when the file is not valid JSON or does not match the schema.
  */
 export async function getPreset(name: string): Promise<PresetData | null> {
-  try {
-    const url = `/src/presets/${name}.json`;
-    console.log(`Attempting to fetch preset: ${url}`);
-    const response = await fetch(url);
-    console.log(`Response status for ${name}:`, response.status, response.ok);
-    if (!response.ok) {
-      console.warn(`Preset ${name} not found, using defaults`);
-      return null;
-    }
-    const data = await response.json();
-    console.log(`Successfully loaded preset ${name}:`, data);
-    return data;
-  } catch (error) {
-    console.warn(`Error loading preset ${name}:`, error);
+  const backend = await getPresetBackend();
+  console.log(`Attempting to load preset: ${name} (${backend.kind})`);
+  const raw = await backend.load(name);
+  if (raw === null) {
+    console.warn(`Preset ${name} not found, using defaults`);
     return null;
   }
+  const data = parsePreset(raw, name);
+  console.log(`Successfully loaded preset ${name}:`, data);
+  return data;
 }
 
 /**
@@ -124,78 +222,89 @@ export async function getPreset(name: string): Promise<PresetData | null> {
  */
 export async function getAvailablePresets(): Promise<string[]> {
   try {
-    const response = await fetch('/api/presets/list');
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    
-    const text = await response.text();
-    if (!text) {
-      throw new Error('Empty response from server');
-    }
-    
-    const result = JSON.parse(text);
-    return result.presets || [];
+    const backend = await getPresetBackend();
+    return await backend.list();
   } catch (error) {
-    console.warn('Error loading available presets, using fallback:', error);
-    return ["default", "HWS14", "ORJ", "Reptile"]; // fallback
+    console.warn('Error loading available presets, using bundled presets:', error);
+    return Object.keys(BUNDLED_PRESETS);
   }
 }
 
+export interface PresetSaveResult {
+  success: boolean;
+  // Name as normalised by the preset store
+  name?: string;
+  message?: string;
+  error?: string;
+  // The name belongs to another preset; retry with `overwrite` once the user confirms
+  exists?: boolean;
+}
+
 /**
- * Save a preset to disk
+ * Save a preset (validated first; existing presets are replaced unless `overwrite` is false)
  */
-export async function putPreset(name: string, data: PresetData): Promise<{ success: boolean; message?: string; error?: string }> {
+export async function putPreset(
+  name: string,
+  data: PresetData,
+  options: { overwrite?: boolean } = {}
+): Promise<PresetSaveResult> {
+  const versioned: PresetData = { ...data, schemaVersion: CURRENT_SCHEMA_VERSION };
+  const issues = validatePreset(versioned);
+  if (issues.length) {
+    return { success: false, error: new PresetValidationError(issues, name).message };
+  }
+
   try {
-    // Try API first
-    const response = await fetch('/api/presets/save', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ name, data }),
-    });
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    
-    const text = await response.text();
-    console.log('Response text:', text);
-    
-    if (!text) {
-      throw new Error('Empty response from server');
-    }
-    
-    const result = JSON.parse(text);
-    if (!result.success) {
-      throw new Error(result.error || 'Failed to save preset');
-    }
-    
-    return result;
+    const backend = await getPresetBackend();
+    const saved = await backend.save(name, versioned, options.overwrite ?? true);
+    const where = backend.kind === "browser" ? " in this browser" : "";
+    return { success: true, name: saved, message: `Preset ${saved} saved successfully${where}` };
   } catch (error) {
-    console.warn('API save failed, falling back to download:', error);
-    
-    // Fallback: Download the preset as a JSON file
-    const jsonStr = JSON.stringify(data, null, 2);
-    const blob = new Blob([jsonStr], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${name}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    
-    return { 
-      success: true, 
-      message: `Preset ${name} downloaded as JSON file. Please save it to src/presets/ directory.` 
+    console.warn('Preset save failed:', error);
+    return {
+      success: false,
+      exists: error instanceof PresetExistsError,
+      error: error instanceof Error ? error.message : 'Failed to save preset',
     };
   }
 }
 
+/**
+ * Rename a preset; resolves with the name it is stored under
+ */
+export async function renamePreset(from: string, to: string, overwrite = false): Promise<string> {
+  return (await getPresetBackend()).rename(from, to, overwrite);
+}
+
+/**
+ * Copy a saved preset under a new name; resolves with the stored name
+ */
+export async function duplicatePreset(from: string, to: string, overwrite = false): Promise<string> {
+  return (await getPresetBackend()).duplicate(from, to, overwrite);
+}
+
+export async function deletePreset(name: string): Promise<void> {
+  return (await getPresetBackend()).remove(name);
+}
+
+/**
+ * Saved revisions of a preset, newest first
+ */
+export async function listPresetRevisions(name: string): Promise<PresetRevision[]> {
+  return (await getPresetBackend()).listRevisions(name);
+}
+
+export async function getPresetRevision(name: string, id: string): Promise<PresetData> {
+  return parsePreset(await (await getPresetBackend()).getRevision(name, id), name);
+}
+
+/**
+ * Make a revision the current preset; resolves with the restored data
+ */
+export async function restorePresetRevision(name: string, id: string): Promise<PresetData> {
+  return parsePreset(await (await getPresetBackend()).restoreRevision(name, id), name);
+}
+
 /**
  * Default preset data
  */
@@ -0,0 +1,27 @@
+/**
+ * Chat messages sent to the LLM for one payload. Used by the editor and the CLI,
+ * so both send exactly the same prompt.
+ */
+import type { ChatMessage } from "./llmProviders";
+import type { SectionData } from "./presetService";
+import { describeOutputFields, OutputField } from "../utils/structuredOutput";
+
+const FALLBACK_INSTRUCTIONS = "You rewrite a structured scene spec into ONE cinematic paragraph for an AI image generator.";
+
+/**
+ * With `outputFields`, the system prompt also spells out the JSON reply format.
+ */
+export function buildLLMMessages(payload: unknown, instructions: string, sections: SectionData[], outputFields: OutputField[] = []): ChatMessage[] {
+  // Field names follow the current section titles (library-only sections never reach the payload)
+  const fieldNames = sections.filter(section => !section.isHidden).map(section => section.title).join(", ");
+
+  const schema =
+`The user message is a JSON object with these fields:
+${fieldNames}.
+Use them verbatim as source tags; rewrite into one cohesive cinematic paragraph.
+Do not invent values not present; resolve contradictions by omission only.`;
+  const reply = outputFields.length ? `\n\n${describeOutputFields(outputFields)}` : "";
+  const system = `${schema}\n\n${instructions || FALLBACK_INSTRUCTIONS}${reply}`;
+  const user = JSON.stringify(payload, null, 2);
+  return [{ role: "system", content: system }, { role: "user", content: user }];
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from "vitest";
+import { planEviction, responseCacheKey } from "./responseCache";
+import type { CacheKeyInput } from "./responseCache";
+
+const request: CacheKeyInput = {
+  provider: "openai",
+  model: "gpt-4o-mini",
+  messages: [
+    { role: "system", content: "Write one paragraph." },
+    { role: "user", content: '{"Weather":"Stormy"}' },
+  ],
+};
+
+describe("response cache", () => {
+  it("keys identical requests alike and any content change apart", async () => {
+    const key = await responseCacheKey(request);
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(await responseCacheKey({ ...request, messages: request.messages.map((m) => ({ ...m })) })).toBe(key);
+    expect(await responseCacheKey({ ...request, model: "gpt-4o" })).not.toBe(key);
+    expect(await responseCacheKey({ ...request, temperature: 0.2 })).not.toBe(key);
+    expect(await responseCacheKey({ ...request, baseUrl: "http://localhost:11434/v1" })).not.toBe(key);
+    expect(await responseCacheKey({ ...request, messages: [request.messages[0], { role: "user", content: '{"Weather":"Clear"}' }] })).not.toBe(key);
+  });
+
+  it("rejects rather than throws without SubtleCrypto", async () => {
+    // Insecure contexts (plain http from another host) have no crypto.subtle
+    vi.stubGlobal("crypto", {});
+    try {
+      await expect(responseCacheKey(request)).rejects.toThrow();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("evicts least recently used entries until the cache fits", () => {
+    const entries = [
+      { key: "a", size: 400, lastUsedAt: 3 },
+      { key: "b", size: 300, lastUsedAt: 1 },
+      { key: "c", size: 300, lastUsedAt: 2 },
+    ];
+    expect(planEviction(entries, 1000)).toEqual([]);
+    expect(planEviction(entries, 700)).toEqual(["b"]);
+    expect(planEviction(entries, 500)).toEqual(["b", "c"]);
+    expect(planEviction(entries, 0)).toEqual(["b", "c", "a"]);
+  });
+});
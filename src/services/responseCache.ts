@@ -0,0 +1,117 @@
+/**
+ * Opt-in cache of LLM responses, stored in IndexedDB and keyed by a hash of the request
+ * content, so re-running a preset with the same seed doesn't pay for identical requests twice.
+ */
+import type { ChatMessage, ProviderId, ResponseSchema, TokenUsage } from "./llmProviders";
+import { RESPONSES_STORE, withStore } from "./idb";
+
+export interface ResponseCacheSettings {
+  enabled: boolean;
+  // Least recently used responses are evicted beyond this size
+  maxMegabytes: number;
+}
+
+export const DEFAULT_RESPONSE_CACHE: ResponseCacheSettings = { enabled: false, maxMegabytes: 20 };
+
+// Everything that decides what a request returns (the API key and streaming do not)
+export interface CacheKeyInput {
+  provider: ProviderId;
+  baseUrl?: string;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Structured output schema, when the reply is JSON
+  responseSchema?: ResponseSchema;
+  messages: ChatMessage[];
+}
+
+export interface CachedResponse {
+  key: string;
+  text: string;
+  model: string;
+  // Tokens the original request used (not charged again on a hit)
+  usage?: TokenUsage;
+  createdAt: number;
+  lastUsedAt: number;
+  // Approximate bytes, for eviction
+  size: number;
+}
+
+export interface ResponseCacheStats {
+  entries: number;
+  bytes: number;
+}
+
+/**
+ * Hex SHA-256 of the request content. Rejects where SubtleCrypto is unavailable
+ * (pages served over plain http from another host).
+ */
+export async function responseCacheKey(input: CacheKeyInput): Promise<string> {
+  const content = JSON.stringify([
+    input.provider,
+    input.baseUrl?.trim().replace(/\/+$/, "") || "",
+    input.model.trim(),
+    input.temperature ?? null,
+    input.maxTokens ?? null,
+    input.messages.map((message) => [message.role, message.content]),
+    ...(input.responseSchema ? [input.responseSchema] : []),
+  ]);
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function cachedResponseSize(entry: Pick<CachedResponse, "key" | "text" | "model">): number {
+  return new TextEncoder().encode(entry.key + entry.text + entry.model).length;
+}
+
+/**
+ * Keys to delete so the cache fits in `maxBytes`, least recently used first.
+ */
+export function planEviction(entries: Pick<CachedResponse, "key" | "size" | "lastUsedAt">[], maxBytes: number): string[] {
+  let bytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const evict: string[] = [];
+  for (const entry of [...entries].sort((a, b) => a.lastUsedAt - b.lastUsedAt)) {
+    if (bytes <= maxBytes) break;
+    evict.push(entry.key);
+    bytes -= entry.size;
+  }
+  return evict;
+}
+
+/**
+ * The cached response for `key`, marked as just used; undefined on a miss.
+ */
+export async function getCachedResponse(key: string): Promise<CachedResponse | undefined> {
+  const entry = await withStore<CachedResponse | undefined>(RESPONSES_STORE, "readonly", (store) => store.get(key));
+  if (!entry) return undefined;
+  const used = { ...entry, lastUsedAt: Date.now() };
+  await withStore(RESPONSES_STORE, "readwrite", (store) => store.put(used));
+  return used;
+}
+
+export async function putCachedResponse(key: string, text: string, model: string, usage?: TokenUsage): Promise<void> {
+  const now = Date.now();
+  const entry: CachedResponse = { key, text, model, usage, createdAt: now, lastUsedAt: now, size: cachedResponseSize({ key, text, model }) };
+  await withStore(RESPONSES_STORE, "readwrite", (store) => store.put(entry));
+}
+
+export async function getResponseCacheStats(): Promise<ResponseCacheStats> {
+  const entries = await withStore<CachedResponse[]>(RESPONSES_STORE, "readonly", (store) => store.getAll());
+  return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.size, 0) };
+}
+
+/**
+ * Evict least recently used responses until the cache fits; resolves with how many were removed.
+ */
+export async function evictResponses(maxMegabytes: number): Promise<number> {
+  const entries = await withStore<CachedResponse[]>(RESPONSES_STORE, "readonly", (store) => store.getAll());
+  const evict = planEviction(entries, Math.max(0, maxMegabytes) * 1024 * 1024);
+  for (const key of evict) {
+    await withStore(RESPONSES_STORE, "readwrite", (store) => store.delete(key));
+  }
+  return evict.length;
+}
+
+export async function clearResponseCache(): Promise<void> {
+  await withStore(RESPONSES_STORE, "readwrite", (store) => store.clear());
+}
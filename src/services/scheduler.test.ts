@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createScheduler, MAX_RETRY_AFTER_MS, parseDuration, parseRateLimitHeaders } from "./scheduler";
+
+describe("rate-limit headers", () => {
+  it("parses OpenAI durations", () => {
+    expect(parseDuration("1s")).toBe(1000);
+    expect(parseDuration("6m0s")).toBe(360_000);
+    expect(parseDuration("120ms")).toBe(120);
+    expect(parseDuration("0.5s")).toBe(500);
+    expect(parseDuration("2")).toBe(2000);
+    expect(parseDuration("soon")).toBeUndefined();
+  });
+
+  it("reads OpenAI and Anthropic headers and both Retry-After forms", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    expect(parseRateLimitHeaders(new Headers({
+      "retry-after": "3",
+      "x-ratelimit-remaining-requests": "0",
+      "x-ratelimit-remaining-tokens": "1200",
+      "x-ratelimit-reset-requests": "1m30s",
+      "x-ratelimit-reset-tokens": "250ms",
+    }), now)).toEqual({ retryAfterMs: 3000, remainingRequests: 0, remainingTokens: 1200, resetRequestsMs: 90_000, resetTokensMs: 250 });
+
+    expect(parseRateLimitHeaders(new Headers({
+      "retry-after": "Thu, 01 Jan 2026 00:00:05 GMT",
+      "anthropic-ratelimit-requests-remaining": "4",
+      "anthropic-ratelimit-requests-reset": "2026-01-01T00:00:10Z",
+    }), now)).toMatchObject({ retryAfterMs: 5000, remainingRequests: 4, resetRequestsMs: 10_000 });
+
+    expect(parseRateLimitHeaders(new Headers({ "retry-after-ms": "750", "retry-after": "9" }), now).retryAfterMs).toBe(750);
+  });
+});
+
+describe("createScheduler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("halves concurrency on a 429 and raises it after a round of successes", async () => {
+    const scheduler = createScheduler({ concurrency: 4 });
+    scheduler.afterResponse(429, new Headers({ "retry-after": "1" }));
+    expect(scheduler.state.concurrency).toBe(2);
+    expect(scheduler.state.waitingUntil).toBe(Date.now() + 1000);
+
+    scheduler.afterResponse(200, new Headers());
+    expect(scheduler.state.concurrency).toBe(2);
+    scheduler.afterResponse(200, new Headers());
+    expect(scheduler.state.concurrency).toBe(3);
+
+    const fixed = createScheduler({ concurrency: 4, adaptive: false });
+    fixed.afterResponse(429, new Headers());
+    expect(fixed.state.concurrency).toBe(4);
+  });
+
+  it("holds extra slots until one is released", async () => {
+    const scheduler = createScheduler({ concurrency: 2 });
+    scheduler.afterResponse(429, new Headers());
+    const first = await scheduler.acquireSlot();
+
+    let second = false;
+    const pending = scheduler.acquireSlot().then((release) => {
+      second = true;
+      return release;
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(second).toBe(false);
+
+    first();
+    (await pending)();
+    expect(second).toBe(true);
+  });
+
+  it("waits out a server-requested pause before the next request", async () => {
+    const scheduler = createScheduler({ concurrency: 2 });
+    scheduler.afterResponse(429, new Headers({ "retry-after": "2" }));
+    const start = Date.now();
+    const sent = scheduler.beforeRequest(0).then(() => Date.now() - start);
+    await vi.advanceTimersByTimeAsync(2500);
+    expect(await sent).toBe(2000);
+    expect(scheduler.state.waitingUntil).toBe(0);
+  });
+
+  it("pauses until the reset when the server reports an exhausted budget", async () => {
+    const scheduler = createScheduler({ concurrency: 2 });
+    scheduler.afterResponse(200, new Headers({ "x-ratelimit-remaining-requests": "0", "x-ratelimit-reset-requests": "500ms" }));
+    expect(scheduler.state.waitingUntil).toBe(Date.now() + 500);
+  });
+
+  it("caps server-requested waits", async () => {
+    const scheduler = createScheduler({ concurrency: 2 });
+    scheduler.afterResponse(429, new Headers({ "retry-after": "86400" }));
+    expect(scheduler.state.waitingUntil).toBe(Date.now() + MAX_RETRY_AFTER_MS);
+
+    const exhausted = createScheduler({ concurrency: 2 });
+    exhausted.afterResponse(200, new Headers({ "x-ratelimit-remaining-tokens": "0", "x-ratelimit-reset-tokens": "24h" }));
+    expect(exhausted.state.waitingUntil).toBe(Date.now() + MAX_RETRY_AFTER_MS);
+  });
+
+  it("spreads requests under the requests-per-minute budget", async () => {
+    const scheduler = createScheduler({ concurrency: 4, requestsPerMinute: 60 });
+    const start = Date.now();
+    const times: number[] = [];
+    const sends = [0, 1, 2].map(() => scheduler.beforeRequest(0).then(() => times.push(Date.now() - start)));
+    await vi.advanceTimersByTimeAsync(3000);
+    await Promise.all(sends);
+    expect(times).toEqual([0, 1000, 2000]);
+  });
+
+  it("keeps estimated tokens per minute under the budget", async () => {
+    const scheduler = createScheduler({ concurrency: 4, tokensPerMinute: 1000 });
+    const start = Date.now();
+    await scheduler.beforeRequest(600);
+    const second = scheduler.beforeRequest(600).then(() => Date.now() - start);
+    await vi.advanceTimersByTimeAsync(61_000);
+    expect(await second).toBe(60_000);
+  });
+
+  it("stops waiting when the run is cancelled", async () => {
+    const scheduler = createScheduler({ concurrency: 1 });
+    scheduler.afterResponse(429, new Headers({ "retry-after": "30" }));
+    const controller = new AbortController();
+    const waiting = scheduler.beforeRequest(0, controller.signal);
+    controller.abort();
+    await expect(waiting).rejects.toThrow("Cancelled");
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Rate-limit-aware request scheduling for batch runs.
+ *
+ * The scheduler hands out worker slots (how many items are in flight) and gates every
+ * HTTP attempt: it honours server-requested waits (`Retry-After`, exhausted
+ * `x-ratelimit-*` / `anthropic-ratelimit-*` budgets), spreads requests to stay under the
+ * configured requests- and tokens-per-minute, halves concurrency on a 429 and raises it
+ * again one step at a time while responses stay healthy.
+ */
+
+export interface RateLimitInfo {
+  // Server-requested wait before the next request
+  retryAfterMs?: number;
+  remainingRequests?: number;
+  remainingTokens?: number;
+  // Time until the request / token budgets reset
+  resetRequestsMs?: number;
+  resetTokensMs?: number;
+}
+
+const UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+
+/**
+ * Parse OpenAI-style durations (`1s`, `6m0s`, `120ms`, `0.5s`); bare numbers are seconds.
+ */
+export function parseDuration(text: string): number | undefined {
+  const trimmed = text.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed) * 1000;
+  const parts = [...trimmed.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h)/g)];
+  if (!parts.length || parts.map((p) => p[0]).join("") !== trimmed) return undefined;
+  return Math.round(parts.reduce((sum, [, value, unit]) => sum + Number(value) * UNITS[unit], 0));
+}
+
+// A duration, or an absolute date (HTTP date or RFC 3339) measured from `now`
+function parseWait(text: string | null, now: number): number | undefined {
+  if (!text) return undefined;
+  const duration = parseDuration(text);
+  if (duration !== undefined) return duration;
+  const date = Date.parse(text);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function parseCount(text: string | null): number | undefined {
+  if (text === null || text.trim() === "") return undefined;
+  const n = Number(text);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Rate-limit headers of an OpenAI-compatible or Anthropic response.
+ */
+export function parseRateLimitHeaders(headers: Headers, now = Date.now()): RateLimitInfo {
+  const info: RateLimitInfo = {};
+  const retryAfterMs = parseCount(headers.get("retry-after-ms"));
+  info.retryAfterMs = retryAfterMs ?? parseWait(headers.get("retry-after"), now);
+  info.remainingRequests = parseCount(headers.get("x-ratelimit-remaining-requests") ?? headers.get("anthropic-ratelimit-requests-remaining"));
+  info.remainingTokens = parseCount(headers.get("x-ratelimit-remaining-tokens") ?? headers.get("anthropic-ratelimit-tokens-remaining"));
+  info.resetRequestsMs = parseWait(headers.get("x-ratelimit-reset-requests") ?? headers.get("anthropic-ratelimit-requests-reset"), now);
+  info.resetTokensMs = parseWait(headers.get("x-ratelimit-reset-tokens") ?? headers.get("anthropic-ratelimit-tokens-reset"), now);
+  return info;
+}
+
+export interface SchedulerOptions {
+  // Starting and highest number of items in flight
+  concurrency: number;
+  // 0 or absent: no limit
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  // Lower concurrency on 429s and raise it back on success (default true)
+  adaptive?: boolean;
+  onChange?: (state: SchedulerState) => void;
+  // Clock, for tests
+  now?: () => number;
+}
+
+// Per-run limits chosen in Run Controls (or on the command line)
+export type RateLimitSettings = Required<Pick<SchedulerOptions, "requestsPerMinute" | "tokensPerMinute" | "adaptive">>;
+
+export const DEFAULT_RATE_LIMITS: RateLimitSettings = { requestsPerMinute: 0, tokensPerMinute: 0, adaptive: true };
+
+export interface SchedulerState {
+  concurrency: number;
+  // Epoch ms until which no request is sent (0 when not waiting)
+  waitingUntil: number;
+}
+
+export interface RequestScheduler {
+  readonly state: SchedulerState;
+  // Resolves with a release function once fewer than `concurrency` items are in flight
+  acquireSlot(signal?: AbortSignal): Promise<() => void>;
+  // Wait until a request of about `tokens` tokens may be sent, then count it
+  beforeRequest(tokens: number, signal?: AbortSignal): Promise<void>;
+  // Learn from a response's status and rate-limit headers
+  afterResponse(status: number, headers: Headers): void;
+}
+
+// Longest server-requested wait honoured, so a wrong or hostile header can't stall a run
+export const MAX_RETRY_AFTER_MS = 120_000;
+
+const WINDOW_MS = 60_000;
+// Wait after a 429 that names no wait of its own
+const DEFAULT_RATE_LIMIT_WAIT_MS = 2_000;
+
+function abortError() {
+  const error = new Error("Cancelled");
+  error.name = "AbortError";
+  return error;
+}
+
+export function createScheduler(options: SchedulerOptions): RequestScheduler {
+  const now = options.now ?? Date.now;
+  const maxConcurrency = Math.max(1, Math.floor(options.concurrency) || 1);
+  const rpm = Math.max(0, options.requestsPerMinute || 0);
+  const tpm = Math.max(0, options.tokensPerMinute || 0);
+  const adaptive = options.adaptive ?? true;
+
+  let concurrency = maxConcurrency;
+  let inFlight = 0;
+  let waitingUntil = 0;
+  let successStreak = 0;
+  // Requests sent in the last minute
+  let sent: { time: number; tokens: number }[] = [];
+  let wakers: Array<() => void> = [];
+
+  const state = () => ({ concurrency, waitingUntil: waitingUntil > now() ? waitingUntil : 0 });
+  const changed = () => options.onChange?.(state());
+
+  function wakeAll() {
+    const wake = wakers;
+    wakers = [];
+    wake.forEach((fn) => fn());
+  }
+
+  // Sleep for `ms` (or until woken when ms is Infinity); rejects on abort
+  function sleep(ms: number, signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) return reject(abortError());
+      const done = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+      };
+      const timer = Number.isFinite(ms) ? setTimeout(done, ms) : undefined;
+      wakers.push(done);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  function pauseFor(ms: number) {
+    const until = now() + Math.min(ms, MAX_RETRY_AFTER_MS);
+    if (until > waitingUntil) {
+      waitingUntil = until;
+      changed();
+    }
+  }
+
+  // How long until a request of `tokens` may go out (0 = now)
+  function delayFor(tokens: number): number {
+    const t = now();
+    sent = sent.filter((entry) => entry.time > t - WINDOW_MS);
+    let wait = Math.max(0, waitingUntil - t);
+    if (rpm) {
+      // Spread requests evenly rather than bursting the whole minute's budget
+      const last = sent[sent.length - 1];
+      if (last) wait = Math.max(wait, last.time + WINDOW_MS / rpm - t);
+      if (sent.length >= rpm) wait = Math.max(wait, sent[sent.length - rpm].time + WINDOW_MS - t);
+    }
+    if (tpm && sent.length) {
+      let used = sent.reduce((sum, entry) => sum + entry.tokens, 0);
+      for (const entry of sent) {
+        if (used + tokens <= tpm) break;
+        used -= entry.tokens;
+        wait = Math.max(wait, entry.time + WINDOW_MS - t);
+      }
+    }
+    return wait;
+  }
+
+  return {
+    get state() {
+      return state();
+    },
+
+    async acquireSlot(signal) {
+      while (inFlight >= concurrency) await sleep(Infinity, signal);
+      inFlight++;
+      let released = false;
+      return () => {
+        if (released) return;
+        released = true;
+        inFlight--;
+        wakeAll();
+      };
+    },
+
+    async beforeRequest(tokens, signal) {
+      for (let wait = delayFor(tokens); wait > 0; wait = delayFor(tokens)) {
+        await sleep(wait, signal);
+      }
+      sent.push({ time: now(), tokens: Math.max(0, tokens) });
+      if (waitingUntil && waitingUntil <= now()) {
+        waitingUntil = 0;
+        changed();
+      }
+    },
+
+    afterResponse(status, headers) {
+      const info = parseRateLimitHeaders(headers, now());
+      if (status === 429 || (status === 503 && info.retryAfterMs !== undefined)) {
+        successStreak = 0;
+        if (adaptive) concurrency = Math.max(1, Math.floor(concurrency / 2));
+        const wait = info.retryAfterMs ?? Math.max(info.resetRequestsMs ?? 0, info.resetTokensMs ?? 0, DEFAULT_RATE_LIMIT_WAIT_MS);
+        waitingUntil = Math.max(waitingUntil, now() + Math.min(wait, MAX_RETRY_AFTER_MS));
+        changed();
+        return;
+      }
+
+      // A budget the server says is spent: hold off until it resets
+      if (info.remainingRequests === 0 && info.resetRequestsMs) pauseFor(info.resetRequestsMs);
+      if (info.remainingTokens === 0 && info.resetTokensMs) pauseFor(info.resetTokensMs);
+
+      if (status >= 200 && status < 300 && adaptive) {
+        // Additive increase: one more slot after a full round of successes
+        successStreak++;
+        const headroom = info.remainingRequests === undefined || info.remainingRequests > concurrency;
+        if (successStreak >= concurrency && concurrency < maxConcurrency && headroom) {
+          concurrency++;
+          successStreak = 0;
+          changed();
+          wakeAll();
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { ConstraintRule, findRuleProblems, isValueAllowed } from "./constraints";
+import { buildPayloads } from "./payloadBuilder";
+import type { SectionData } from "../services/presetService";
+
+const rules: ConstraintRule[] = [
+  { id: "r1", whenSection: "Time of Day", whenValues: ["night"], thenSection: "Lighting", effect: "excludes", values: ["Harsh light", "Bright"] },
+  { id: "r2", whenSection: "Weather", whenValues: ["Stormy"], thenSection: "Lighting", effect: "requires", values: ["Dim", "Muted"] },
+];
+
+describe("constraint rules", () => {
+  it("checks rules in both directions", () => {
+    expect(isValueAllowed("Lighting", "harsh light", { "Time of Day": "Night" }, rules)).toBe(false);
+    expect(isValueAllowed("Lighting", "Dim", { "Time of Day": "night" }, rules)).toBe(true);
+    // Lighting drawn first: night is no longer allowed
+    expect(isValueAllowed("Time of Day", "night", { Lighting: "Bright" }, rules)).toBe(false);
+    expect(isValueAllowed("Lighting", "Bright", { Weather: "Stormy" }, rules)).toBe(false);
+  });
+
+  it("keeps generated payloads consistent with the rules", () => {
+    const section = (id: string, title: string, list: string): SectionData => ({
+      id, title, list, selections: [], isRandomized: true,
+    });
+    const sections = [
+      section("t", "Time of Day", "night, noon"),
+      section("w", "Weather", "Stormy, Clear"),
+      section("l", "Lighting", "Harsh light, Bright, Dim, Muted"),
+    ];
+
+    const payloads = buildPayloads(sections, { seedBase: 42, batchSize: 60, rules });
+    payloads.forEach((payload) => {
+      if (payload["Time of Day"] === "night") expect(["Harsh light", "Bright"]).not.toContain(payload.Lighting);
+      if (payload.Weather === "Stormy") expect(["Dim", "Muted"]).toContain(payload.Lighting);
+    });
+  });
+
+  it("reports sections a rule set makes impossible to fill", () => {
+    const problems = findRuleProblems(
+      { "Time of Day": ["night"], Lighting: ["Harsh light", "Bright"], Weather: [] },
+      [...rules, { id: "r3", whenSection: "Lens", whenValues: ["35mm"], thenSection: "Lighting", effect: "excludes", values: [] }]
+    );
+    expect(problems).toContain("When Time of Day = night, Lighting has no allowed options.");
+    expect(problems).toContain('Rule refers to unknown section "Lens".');
+  });
+});
@@ -0,0 +1,131 @@
+// src/utils/constraints.ts
+import { WeightedOption } from "./random";
+
+/**
+ * Cross-section rule, e.g.
+ *   "Time of Day" in [night] => "Lighting" excludes [Harsh light, Bright]
+ *   "Weather / Atmosphere" in [Stormy] => "Lighting" requires [Dim, Muted]
+ * Sections are referenced by title; values match case-insensitively.
+ */
+export type RuleEffect = "excludes" | "requires";
+
+export interface ConstraintRule {
+  id: string;
+  whenSection: string;
+  whenValues: string[];
+  thenSection: string;
+  effect: RuleEffect;
+  values: string[];
+}
+
+// Values already drawn for the current item, keyed by section title (several for multi-pick sections)
+export type DrawnValues = Record<string, string | string[] | undefined>;
+
+const norm = (s: string) => (s ?? "").trim().toLowerCase();
+
+function matches(value: string | undefined, list: string[]) {
+  if (!value) return false;
+  const key = norm(value);
+  return list.some((v) => norm(v) === key);
+}
+
+function sameSection(a: string, b: string) {
+  return norm(a) === norm(b);
+}
+
+function findDrawn(drawn: DrawnValues, section: string): string[] {
+  const key = Object.keys(drawn).find((title) => sameSection(title, section));
+  const value = key ? drawn[key] : undefined;
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Does the rule accept this (trigger, target) pair?
+ */
+function ruleHolds(rule: ConstraintRule, trigger: string, target: string) {
+  if (!matches(trigger, rule.whenValues)) return true;
+  return rule.effect === "excludes" ? !matches(target, rule.values) : matches(target, rule.values);
+}
+
+/**
+ * Can `value` be drawn for `section` given what has been drawn so far?
+ * Rules are checked in both directions, so section order in the editor doesn't matter.
+ */
+export function isValueAllowed(section: string, value: string, drawn: DrawnValues, rules: ConstraintRule[]): boolean {
+  return rules.every((rule) => {
+    if (sameSection(rule.thenSection, section)) {
+      if (!findDrawn(drawn, rule.whenSection).every((trigger) => ruleHolds(rule, trigger, value))) return false;
+    }
+    if (sameSection(rule.whenSection, section)) {
+      if (!findDrawn(drawn, rule.thenSection).every((target) => ruleHolds(rule, value, target))) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Filter a section's candidates down to those the rules allow.
+ */
+export function filterAllowed(
+  section: string,
+  candidates: WeightedOption[],
+  drawn: DrawnValues,
+  rules: ConstraintRule[]
+): WeightedOption[] {
+  if (!rules.length) return candidates;
+  return candidates.filter((o) => isValueAllowed(section, o.value, drawn, rules));
+}
+
+/**
+ * Static check of a rule set against the current section candidates.
+ * Returns human-readable warnings for unknown sections and for triggers that
+ * leave a section with nothing to draw.
+ */
+export function findRuleProblems(
+  candidatesBySection: Record<string, string[]>,
+  rules: ConstraintRule[]
+): string[] {
+  const problems: string[] = [];
+  const titles = Object.keys(candidatesBySection);
+  const lookup = (section: string) => titles.find((title) => sameSection(title, section));
+
+  rules.forEach((rule) => {
+    if (!lookup(rule.whenSection)) problems.push(`Rule refers to unknown section "${rule.whenSection}".`);
+    if (!lookup(rule.thenSection)) problems.push(`Rule refers to unknown section "${rule.thenSection}".`);
+  });
+
+  // For every trigger value, apply all rules it fires on each target section together
+  const checked = new Set<string>();
+  rules.forEach((rule) => {
+    const whenTitle = lookup(rule.whenSection);
+    const thenTitle = lookup(rule.thenSection);
+    if (!whenTitle || !thenTitle) return;
+
+    rule.whenValues.forEach((trigger) => {
+      const key = `${norm(whenTitle)}|${norm(trigger)}|${norm(thenTitle)}`;
+      if (checked.has(key)) return;
+      checked.add(key);
+
+      const targets = candidatesBySection[thenTitle];
+      if (!targets.length) return;
+      const allowed = targets.filter((value) => isValueAllowed(thenTitle, value, { [whenTitle]: trigger }, rules));
+      if (!allowed.length) {
+        problems.push(`When ${whenTitle} = ${trigger}, ${thenTitle} has no allowed options.`);
+      }
+    });
+  });
+
+  return problems;
+}
+
+/**
+ * Keep rules pointing at a section after it is renamed.
+ */
+export function renameRuleSection(rules: ConstraintRule[], from: string, to: string): ConstraintRule[] {
+  return rules.map((rule) => ({
+    ...rule,
+    whenSection: sameSection(rule.whenSection, from) ? to : rule.whenSection,
+    thenSection: sameSection(rule.thenSection, from) ? to : rule.thenSection,
+  }));
+}
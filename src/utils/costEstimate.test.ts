@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkBudget,
+  createSpendGuard,
+  DEFAULT_MODEL_PRICES,
+  estimateBatchCost,
+  estimateMessageTokens,
+  estimateTokens,
+  findModelPrice,
+  formatCost,
+} from "./costEstimate";
+
+describe("cost estimate", () => {
+  it("estimates tokens from characters, with at least one per word", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("a".repeat(40))).toBe(10);
+    expect(estimateTokens("a b c d e f")).toBe(6);
+    expect(estimateMessageTokens([{ role: "system", content: "a".repeat(40) }, { role: "user", content: "{}" }])).toBe(4 + 10 + 4 + 1);
+  });
+
+  it("matches prices exactly, then by the longest prefix", () => {
+    expect(findModelPrice(DEFAULT_MODEL_PRICES, "GPT-4o-mini")?.model).toBe("gpt-4o-mini");
+    expect(findModelPrice(DEFAULT_MODEL_PRICES, "gpt-4o-mini-2024-07-18")?.model).toBe("gpt-4o-mini");
+    expect(findModelPrice(DEFAULT_MODEL_PRICES, "gpt-4o-2024-08-06")?.model).toBe("gpt-4o");
+    expect(findModelPrice(DEFAULT_MODEL_PRICES, "llama3.1")).toBeUndefined();
+    expect(findModelPrice(DEFAULT_MODEL_PRICES, "")).toBeUndefined();
+  });
+
+  it("scales the sample average to the batch and prices input and output", () => {
+    const sample = [
+      [{ role: "user", content: "a".repeat(396) }], // 4 + 99 tokens
+      [{ role: "user", content: "a".repeat(796) }], // 4 + 199 tokens
+    ];
+    const estimate = estimateBatchCost(sample, 100, 150, { model: "m", input: 1, output: 2 });
+    expect(estimate).toMatchObject({ prompts: 100, inputTokens: 15300, outputTokens: 15000 });
+    expect(estimate.cost).toBeCloseTo((15300 * 1 + 15000 * 2) / 1_000_000);
+    expect(estimateBatchCost(sample, 100, 150).cost).toBeNull();
+  });
+
+  it("holds back runs over the budget only when a cap and a price are set", () => {
+    const estimate = estimateBatchCost([[{ role: "user", content: "x".repeat(4000) }]], 1000, 0, { model: "m", input: 10, output: 0 });
+    expect(estimate.cost).toBeCloseTo(10.04);
+    expect(checkBudget(estimate, { limit: 0, mode: "block" })).toBe("ok");
+    expect(checkBudget(estimate, { limit: 20, mode: "block" })).toBe("ok");
+    expect(checkBudget(estimate, { limit: 5, mode: "block" })).toBe("block");
+    expect(checkBudget(estimate, { limit: 5, mode: "confirm" })).toBe("confirm");
+    expect(checkBudget({ ...estimate, cost: null }, { limit: 5, mode: "block" })).toBe("ok");
+  });
+
+  it("holds every request of a run to a blocking budget", () => {
+    const guard = createSpendGuard({ limit: 1, mode: "block" }, 0.5);
+    guard.start(0.3);
+    // The in-flight request still counts
+    expect(() => guard.start(0.3)).toThrow(/over the \$1\.00 budget/);
+    guard.finish(0.3, 0.1);
+    // A request that failed before anything was billed
+    guard.start(0.3);
+    guard.finish(0.3, 0);
+    guard.start(0.3);
+    guard.finish(0.3, null);
+    expect(() => guard.start(0.2)).toThrow();
+    guard.start(null);
+
+    const confirm = createSpendGuard({ limit: 1, mode: "confirm" }, 5);
+    expect(() => confirm.start(1)).not.toThrow();
+  });
+
+  it("formats small and large costs", () => {
+    expect(formatCost(0)).toBe("$0");
+    expect(formatCost(0.00123)).toBe("$0.0012");
+    expect(formatCost(12.345)).toBe("$12.35");
+  });
+});
@@ -0,0 +1,157 @@
+// src/utils/costEstimate.ts
+import type { ChatMessage, TokenUsage } from "../services/llmProviders";
+
+// USD per million tokens
+export interface ModelPrice {
+  model: string;
+  input: number;
+  output: number;
+}
+
+// Editable in Run Controls; list prices at the time of writing
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: "gpt-4o-mini", input: 0.15, output: 0.6 },
+  { model: "gpt-4o", input: 2.5, output: 10 },
+  { model: "gpt-4.1-mini", input: 0.4, output: 1.6 },
+  { model: "claude-3-5-haiku-latest", input: 0.8, output: 4 },
+  { model: "claude-3-5-sonnet-latest", input: 3, output: 15 },
+];
+
+// A paragraph of 2–5 sentences
+export const DEFAULT_OUTPUT_TOKENS = 150;
+
+// Chat formatting around each message (role markers, separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Approximate token count: about four characters per token for English text,
+ * never fewer than one token per word or punctuation run.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  const pieces = text.match(/[A-Za-z0-9]+|[^\sA-Za-z0-9]+/g)?.length ?? 0;
+  return Math.max(Math.ceil(text.length / 4), pieces);
+}
+
+export function estimateMessageTokens(messages: ChatMessage[]): number {
+  return messages.reduce((sum, message) => sum + MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content), 0);
+}
+
+/**
+ * Price for a model: an exact (case-insensitive) match, otherwise the longest listed
+ * name the model starts with (e.g. `gpt-4o-2024-08-06` → `gpt-4o`).
+ */
+export function findModelPrice(prices: ModelPrice[], model: string): ModelPrice | undefined {
+  const key = model.trim().toLowerCase();
+  if (!key) return undefined;
+  const exact = prices.find((price) => price.model.trim().toLowerCase() === key);
+  if (exact) return exact;
+  return prices
+    .filter((price) => price.model.trim() && key.startsWith(price.model.trim().toLowerCase()))
+    .sort((a, b) => b.model.length - a.model.length)[0];
+}
+
+export interface CostEstimate {
+  prompts: number;
+  inputTokens: number;
+  outputTokens: number;
+  // null when there is no price for the model
+  cost: number | null;
+  price?: ModelPrice;
+}
+
+/**
+ * Estimate a batch from sample messages: the average input size of the samples is
+ * scaled to `batchSize` prompts, each expected to produce `outputTokensPerPrompt`.
+ */
+export function estimateBatchCost(
+  sampleMessages: ChatMessage[][],
+  batchSize: number,
+  outputTokensPerPrompt: number,
+  price?: ModelPrice
+): CostEstimate {
+  const prompts = Math.max(0, Math.floor(batchSize) || 0);
+  const sampleTokens = sampleMessages.reduce((sum, messages) => sum + estimateMessageTokens(messages), 0);
+  const perPrompt = sampleMessages.length ? sampleTokens / sampleMessages.length : 0;
+  const inputTokens = Math.round(perPrompt * prompts);
+  const outputTokens = Math.max(0, outputTokensPerPrompt || 0) * prompts;
+  const cost = price ? (inputTokens * price.input + outputTokens * price.output) / 1_000_000 : null;
+  return { prompts, inputTokens, outputTokens, cost, price };
+}
+
+export function sumUsage(usages: (TokenUsage | null | undefined)[]): TokenUsage {
+  return usages.reduce<TokenUsage>(
+    (total, usage) => ({
+      promptTokens: total.promptTokens + (usage?.promptTokens || 0),
+      completionTokens: total.completionTokens + (usage?.completionTokens || 0),
+    }),
+    { promptTokens: 0, completionTokens: 0 }
+  );
+}
+
+/**
+ * Cost of reported usage in USD (null without a price)
+ */
+export function usageCost(usage: TokenUsage, price?: ModelPrice): number | null {
+  return price ? (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000 : null;
+}
+
+export type BudgetMode = "block" | "confirm";
+
+export interface Budget {
+  // USD per run; 0 turns the cap off
+  limit: number;
+  mode: BudgetMode;
+}
+
+export const DEFAULT_BUDGET: Budget = { limit: 0, mode: "confirm" };
+
+/**
+ * Whether a run within the estimate may start: "ok", or the budget's mode when the
+ * estimate is over the cap. Runs without a price are never held back.
+ */
+export function checkBudget(estimate: CostEstimate, budget: Budget): "ok" | BudgetMode {
+  if (!(budget.limit > 0) || estimate.cost === null) return "ok";
+  return estimate.cost > budget.limit ? budget.mode : "ok";
+}
+
+export interface SpendGuard {
+  // Hold a request's estimated cost while it is in flight; throws when it would take the run over a blocking budget
+  start(estimate: number | null): void;
+  // Release the hold and charge what the request cost (the estimate when unreported; 0 for a failed request)
+  finish(estimate: number | null, cost: number | null): void;
+}
+
+/**
+ * Tracks a run's spend so every request — first sends, retries of failures and
+ * corrective re-sends alike — is held to a "block" budget, not only the pre-flight estimate.
+ * `spent` is what the run already cost; requests without a price are never held back.
+ */
+export function createSpendGuard(budget: Budget, spent = 0): SpendGuard {
+  const blocking = budget.mode === "block" && budget.limit > 0;
+  let held = 0;
+  return {
+    start(estimate) {
+      if (estimate === null) return;
+      if (blocking && spent + held + estimate > budget.limit) {
+        throw new Error(`Not sent: it would take the run over the ${formatCost(budget.limit)} budget (${formatCost(spent + held)} spent or in flight)`);
+      }
+      held += estimate;
+    },
+    finish(estimate, cost) {
+      if (estimate === null) return;
+      held -= estimate;
+      spent += cost ?? estimate;
+    },
+  };
+}
+
+export function formatCost(usd: number): string {
+  if (usd === 0) return "$0";
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
+
+export function formatTokens(tokens: number): string {
+  return tokens >= 10_000 ? `${(tokens / 1000).toFixed(0)}k` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { buildExportRows, ExportContext, exportPrompts, normalizeExportFormat } from "./exporters";
+import type { Payload } from "./payloadBuilder";
+import type { BatchItem } from "../services/batchRunner";
+
+const context: ExportContext = { preset: "HWS14", model: "gpt-4o-mini", seed: 42, fields: ["Weather", "Lens"] };
+
+const items: BatchItem[] = [
+  { index: 0, text: "A stormy harbour,\nshot on \"35mm\".", status: "ok", attempts: 1 },
+  { index: 1, text: "", status: "failed", error: "HTTP 500", attempts: 3 },
+  { index: 2, text: "A clear morning.", status: "ok", attempts: 1 },
+];
+const payloads: Payload[] = [
+  { Lens: "35mm", Weather: "Stormy" },
+  { Weather: "Foggy" },
+  { Weather: "Clear", Extra: ["a", "b"] },
+];
+const rows = buildExportRows(items, payloads, []);
+
+describe("exporters", () => {
+  it("pairs successful prompts with their payloads", () => {
+    expect(rows.map((row) => row.index)).toEqual([0, 2]);
+    expect(rows[1].payload).toEqual(payloads[2]);
+    expect(buildExportRows([], [], ["one", "two"])).toEqual([
+      { index: 0, prompt: "one", payload: {} },
+      { index: 1, prompt: "two", payload: {} },
+    ]);
+  });
+
+  it("keeps multi-line prompts on one line in text formats", () => {
+    expect(exportPrompts("txt", rows, context)).toBe('A stormy harbour, shot on "35mm".\nA clear morning.');
+    expect(exportPrompts("a1111", rows, context).split("\n")[0]).toBe('--prompt "A stormy harbour, shot on \\"35mm\\"."');
+  });
+
+  it("writes one JSON object per prompt", () => {
+    const lines = exportPrompts("jsonl", rows, context).trim().split("\n").map((line) => JSON.parse(line));
+    expect(lines[0]).toEqual({
+      index: 0,
+      prompt: items[0].text,
+      payload: payloads[0],
+      seed: 42,
+      model: "gpt-4o-mini",
+      preset: "HWS14",
+    });
+  });
+
+  it("writes CSV columns in section order with quoting", () => {
+    const lines = exportPrompts("csv", rows, context).split("\r\n");
+    expect(lines[0]).toBe("Weather,Lens,Extra,prompt");
+    expect(lines[1]).toBe('Stormy,35mm,,"A stormy harbour,\nshot on ""35mm""."');
+    expect(lines[2]).toBe('Clear,,"a, b",A clear morning.');
+  });
+
+  it("adds output field columns and ComfyUI negatives", () => {
+    const structured = buildExportRows(
+      [{ index: 0, text: "A harbour.", status: "ok", attempts: 1, fields: { prompt: "A harbour.", negativePrompt: "blur", title: "Harbour" } }],
+      [{ Weather: "Stormy" }],
+      []
+    );
+    const fieldContext = { ...context, outputFields: ["prompt", "title", "negativePrompt"] };
+    expect(exportPrompts("csv", structured, fieldContext).split("\r\n").slice(0, 2)).toEqual(["Weather,prompt,title,negativePrompt", "Stormy,A harbour.,Harbour,blur"]);
+    expect(JSON.parse(exportPrompts("jsonl", structured, fieldContext)).fields).toEqual(structured[0].fields);
+    expect(JSON.parse(exportPrompts("comfyui", structured, fieldContext)).prompts[0]).toEqual({ index: 0, positive: "A harbour.", negative: "blur" });
+  });
+
+  it("falls back to plain text for unknown formats", () => {
+    expect(normalizeExportFormat("pdf")).toBe("txt");
+    expect(normalizeExportFormat("comfyui")).toBe("comfyui");
+  });
+});
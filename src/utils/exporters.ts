@@ -0,0 +1,149 @@
+// src/utils/exporters.ts
+import type { BatchItem } from "../services/batchRunner";
+import type { Payload, PayloadValue } from "./payloadBuilder";
+import type { OutputFieldValues } from "./structuredOutput";
+
+export type ExportFormat = "txt" | "jsonl" | "csv" | "a1111" | "comfyui";
+
+export interface ExportFormatInfo {
+  id: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  description: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { id: "txt", label: "Plain text", extension: "txt", mimeType: "text/plain", description: "One prompt per line; line breaks inside a prompt become spaces." },
+  { id: "jsonl", label: "JSONL", extension: "jsonl", mimeType: "application/x-ndjson", description: "One JSON object per prompt with its payload, output fields, seed, model and preset." },
+  { id: "csv", label: "CSV", extension: "csv", mimeType: "text/csv", description: "One column per section plus the prompt and each output field; opens in any spreadsheet." },
+  { id: "a1111", label: "A1111 prompts from file", extension: "txt", mimeType: "text/plain", description: "`--prompt \"…\"` lines for the \"Prompts from file or textbox\" script." },
+  { id: "comfyui", label: "ComfyUI batch JSON", extension: "json", mimeType: "application/json", description: "A JSON batch of positive/negative prompt pairs for batch prompt loader nodes." },
+];
+
+export function normalizeExportFormat(format: unknown): ExportFormat {
+  return EXPORT_FORMATS.some((f) => f.id === format) ? (format as ExportFormat) : "txt";
+}
+
+export function getExportFormat(format: unknown): ExportFormatInfo {
+  const id = normalizeExportFormat(format);
+  return EXPORT_FORMATS.find((f) => f.id === id)!;
+}
+
+// One exported prompt and the payload that produced it
+export interface ExportRow {
+  index: number;
+  prompt: string;
+  payload: Payload;
+  // Structured reply fields (the first is `prompt`)
+  fields?: OutputFieldValues;
+}
+
+export interface ExportContext {
+  preset: string;
+  // null for local template renders
+  model: string | null;
+  seed: number;
+  // Section titles in editor order, used for CSV columns
+  fields: string[];
+  // Structured output field names in order; the first is the prompt itself
+  outputFields?: string[];
+}
+
+/**
+ * Pair successful prompts with their payloads. Without batch items (e.g. after a reload)
+ * the stored prompts are exported without payloads.
+ */
+export function buildExportRows(items: BatchItem[], payloads: Payload[], prompts: string[]): ExportRow[] {
+  if (!items.length) return prompts.map((prompt, index) => ({ index, prompt, payload: {} }));
+  return items
+    .filter((item) => item.status === "ok")
+    .map((item) => ({ index: item.index, prompt: item.text, payload: payloads[item.index] || {}, ...(item.fields && { fields: item.fields }) }));
+}
+
+function singleLine(text: string) {
+  return text.replace(/\s*[\r\n]+\s*/g, " ").trim();
+}
+
+function formatValue(value: PayloadValue | undefined) {
+  if (value === undefined) return "";
+  return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+function csvCell(text: string) {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Payload columns in section order, then any payload keys without a section
+function csvColumns(rows: ExportRow[], fields: string[]) {
+  const columns = fields.filter((field) => rows.some((row) => field in row.payload));
+  rows.forEach((row) => {
+    Object.keys(row.payload).forEach((key) => {
+      if (!columns.includes(key)) columns.push(key);
+    });
+  });
+  return columns;
+}
+
+// Output fields after the prompt, in the preset's order, then any others the rows carry
+function outputColumns(rows: ExportRow[], outputFields: string[] = []) {
+  const columns = outputFields.slice(1);
+  rows.forEach((row) => {
+    Object.keys(row.fields || {}).forEach((key) => {
+      if (key !== outputFields[0] && !columns.includes(key)) columns.push(key);
+    });
+  });
+  return columns;
+}
+
+// The first field whose name reads as a negative prompt ("negativePrompt", "negative_prompt", "Negative")
+function negativePrompt(fields: OutputFieldValues | undefined) {
+  const key = Object.keys(fields || {}).find((name) => /^negative(prompt)?$/.test(name.toLowerCase().replace(/[^a-z]/g, "")));
+  return key ? fields![key] : "";
+}
+
+export function exportPrompts(format: ExportFormat, rows: ExportRow[], context: ExportContext): string {
+  switch (format) {
+    case "jsonl":
+      return rows
+        .map((row) => JSON.stringify({
+          index: row.index,
+          prompt: row.prompt,
+          payload: row.payload,
+          ...(row.fields && { fields: row.fields }),
+          seed: context.seed,
+          model: context.model,
+          preset: context.preset,
+        }))
+        .join("\n") + "\n";
+
+    case "csv": {
+      const columns = csvColumns(rows, context.fields);
+      const extra = outputColumns(rows, context.outputFields);
+      const lines = [
+        [...columns, "prompt", ...extra].map(csvCell).join(","),
+        ...rows.map((row) =>
+          [...columns.map((c) => formatValue(row.payload[c])), row.prompt, ...extra.map((c) => row.fields?.[c] ?? "")].map(csvCell).join(",")
+        ),
+      ];
+      return lines.join("\r\n") + "\r\n";
+    }
+
+    case "a1111":
+      // Parsed with shlex by the script, so quotes and backslashes are escaped
+      return rows
+        .map((row) => `--prompt "${singleLine(row.prompt).replace(/[\\"]/g, "\\$&")}"`)
+        .join("\n") + "\n";
+
+    case "comfyui":
+      return JSON.stringify({
+        preset: context.preset,
+        model: context.model,
+        seed: context.seed,
+        prompts: rows.map((row) => ({ index: row.index, positive: row.prompt, negative: negativePrompt(row.fields) })),
+      }, null, 2);
+
+    default:
+      return rows.map((row) => singleLine(row.prompt)).join("\n");
+  }
+}
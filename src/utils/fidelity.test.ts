@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { SectionData } from "../services/presetService";
+import { averageFidelity, checkFidelity } from "./fidelity";
+
+const section = (title: string, list: string, patch: Partial<SectionData> = {}): SectionData => ({
+  id: title,
+  title,
+  list,
+  selections: [],
+  isRandomized: true,
+  ...patch,
+});
+
+const sections = [
+  section("Environment", "a patch of wild fennel on a cracked hillside\na dusty hiking trail with scattered eucalyptus bark"),
+  section("Weather", "Heavy fog\nOvercast\nClear"),
+  section("Lens", "35mm f/1.4\n50mm f/1.8\n85mm f/1.4"),
+  section("Post", "fine grain halation\nKodak Portra 400 35mm film"),
+];
+
+const payload = {
+  Environment: "a patch of wild fennel on a cracked hillside",
+  Weather: "Heavy fog",
+  Lens: "35mm f/1.4",
+  Post: "fine grain halation",
+};
+
+const statuses = (output: string) =>
+  Object.fromEntries(checkFidelity(output, payload, sections).fields.map((entry) => [entry.field, entry.status]));
+
+describe("payload fidelity", () => {
+  it("scores an output that uses every value once verbatim at 100", () => {
+    const report = checkFidelity(
+      "A Patch of wild fennel on a cracked hillside under heavy fog. Shot on a 35mm f/1.4, with fine grain halation.",
+      payload,
+      sections
+    );
+    expect(report.fields.every((entry) => entry.status === "verbatim")).toBe(true);
+    expect(report).toMatchObject({ foreign: [], score: 100 });
+  });
+
+  it("tells missing, paraphrased and duplicated values apart", () => {
+    expect(statuses("Wild fennel covers a cracked slope in foggy air. Shot on a 35mm f/1.4, with 35mm f/1.4 sharpness.")).toEqual({
+      Environment: "paraphrased",
+      Weather: "paraphrased",
+      Lens: "duplicated",
+      Post: "missing",
+    });
+  });
+
+  it("flags list values that were not drawn, but not common single words", () => {
+    const report = checkFidelity(
+      "A patch of wild fennel on a cracked hillside in heavy fog under a clear sky. Shot on a 50mm f/1.8, with fine grain halation.",
+      payload,
+      sections
+    );
+    expect(report.foreign).toEqual([{ field: "Lens", value: "50mm f/1.8" }]);
+    expect(report.fields.find((entry) => entry.field === "Lens")?.status).toBe("missing");
+    expect(report.score).toBe(75 - 10);
+  });
+
+  it("checks each value of a multi-pick field and averages scores", () => {
+    const report = checkFidelity("Heavy fog rolls in.", { Weather: ["Heavy fog", "Overcast"] });
+    expect(report.fields.map((entry) => entry.status)).toEqual(["verbatim", "missing"]);
+    expect(report.score).toBe(50);
+    expect(averageFidelity([report, null, { fields: [], foreign: [], score: 100 }])).toBe(75);
+    expect(averageFidelity([])).toBeNull();
+  });
+
+  it("scores each pick of a comma-joined multi-pick section on its own", () => {
+    const multiPick = [...sections.filter((entry) => entry.title !== "Weather"), section("Weather", "Heavy fog\nOvercast\nClear", { pickCount: { min: 2, max: 2 } })];
+    const report = checkFidelity(
+      "A patch of wild fennel on a cracked hillside, heavy fog under an overcast sky. Shot on a 35mm f/1.4, with fine grain halation.",
+      { ...payload, Weather: "Heavy fog, Overcast" },
+      multiPick
+    );
+    expect(report.fields.filter((entry) => entry.field === "Weather")).toMatchObject([
+      { value: "Heavy fog", status: "verbatim" },
+      { value: "Overcast", status: "verbatim" },
+    ]);
+    expect(report.score).toBe(100);
+  });
+});
@@ -0,0 +1,144 @@
+// src/utils/fidelity.ts
+import type { SectionData } from "../services/presetService";
+import { normalizePickCount, Payload, sectionPool } from "./payloadBuilder";
+import { getWeightedCandidates } from "./randomPicker";
+
+/**
+ * Deterministic check of how faithfully an output uses its payload:
+ * - verbatim: the value appears once, word for word (case-insensitive)
+ * - duplicated: it appears more than once
+ * - paraphrased: not verbatim, but most of its words (or their stems) are there
+ * - missing: neither
+ * Values from a section's list that were not drawn for this item but appear in the
+ * output (e.g. a different lens) are reported as foreign.
+ */
+export type FieldStatus = "verbatim" | "duplicated" | "paraphrased" | "missing";
+
+export interface FieldFidelity {
+  field: string;
+  value: string;
+  status: FieldStatus;
+  occurrences: number;
+}
+
+export interface ForeignValue {
+  field: string;
+  value: string;
+}
+
+export interface FidelityReport {
+  fields: FieldFidelity[];
+  foreign: ForeignValue[];
+  // 0–100; 100 when every value is used once verbatim and nothing foreign appears
+  score: number;
+}
+
+const STATUS_CREDIT: Record<FieldStatus, number> = { verbatim: 1, duplicated: 0.75, paraphrased: 0.5, missing: 0 };
+const FOREIGN_PENALTY = 10;
+// Share of a value's words that must appear for it to count as paraphrased
+const PARAPHRASE_THRESHOLD = 0.5;
+// Words sharing this many leading letters count as the same word (scattered / scattering)
+const STEM_LENGTH = 5;
+
+const STOP_WORDS = new Set(["a", "an", "and", "at", "by", "for", "in", "of", "on", "or", "the", "to", "with"]);
+
+const WORD_CHAR = "[\\p{L}\\p{N}]";
+
+// Typographic quotes and dashes compare equal to their plain forms
+function normalize(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[‐-―]/g, "-")
+    .toLowerCase();
+}
+
+function countOccurrences(text: string, value: string): number {
+  const body = normalize(value)
+    .trim()
+    .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/\s+/g, "\\s+");
+  if (!body) return 0;
+  return Array.from(text.matchAll(new RegExp(`(?<!${WORD_CHAR})${body}(?!${WORD_CHAR})`, "gu"))).length;
+}
+
+function words(text: string): string[] {
+  return normalize(text).match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+// Equal, one extends the other (fog / foggy, blossom / blossoms) or a shared stem
+function sameWord(a: string, b: string): boolean {
+  if (a === b) return true;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (shorter.length >= 3 && longer.startsWith(shorter)) return true;
+  return a.length >= STEM_LENGTH && b.length >= STEM_LENGTH && a.slice(0, STEM_LENGTH) === b.slice(0, STEM_LENGTH);
+}
+
+function isParaphrased(outputWords: string[], value: string): boolean {
+  const content = words(value).filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+  if (!content.length) return false;
+  const found = content.filter((word) => outputWords.some((other) => sameWord(word, other))).length;
+  return found / content.length >= PARAPHRASE_THRESHOLD;
+}
+
+// Payload values one by one. Multi-pick fields hold several: an array, or with the "comma"
+// join style one string joined with ", " (list entries can't contain commas, so it splits back)
+function payloadValues(payload: Payload, sections: SectionData[]): { field: string; value: string }[] {
+  const multiPick = new Set(sections.filter((section) => normalizePickCount(section.pickCount).max > 1).map((section) => section.title));
+  return Object.entries(payload).flatMap(([field, value]) => {
+    const values = Array.isArray(value) ? value : multiPick.has(field) ? String(value).split(", ") : [value];
+    return values.map((v) => ({ field, value: String(v).trim() })).filter((entry) => entry.value);
+  });
+}
+
+/**
+ * List values worth flagging when they show up undrawn: several words or a number
+ * ("50mm f/1.4", "Heavy fog"). Single plain words ("Bright", "Clear") are too common in prose,
+ * and wildcard entries never appear as written.
+ */
+function isDistinctive(value: string): boolean {
+  if (/[{}|]|__/.test(value)) return false;
+  return words(value).length > 1 || /\d/.test(value);
+}
+
+/**
+ * Compare one output with the payload it was written from.
+ * `sections` supplies each field's list for spotting foreign values; hidden library lists are skipped.
+ */
+export function checkFidelity(output: string, payload: Payload, sections: SectionData[] = []): FidelityReport {
+  const text = normalize(output);
+  const outputWords = words(output);
+
+  const fields = payloadValues(payload, sections).map(({ field, value }): FieldFidelity => {
+    const occurrences = countOccurrences(text, value);
+    const status: FieldStatus =
+      occurrences > 1 ? "duplicated" : occurrences === 1 ? "verbatim" : isParaphrased(outputWords, value) ? "paraphrased" : "missing";
+    return { field, value, status, occurrences };
+  });
+
+  // Anything inside a drawn value (of any field) is accounted for
+  const drawn = fields.map((entry) => normalize(entry.value));
+  const foreign: ForeignValue[] = [];
+  sections
+    .filter((section) => !section.isHidden && section.title.trim())
+    .forEach((section) => {
+      getWeightedCandidates(sectionPool(section)).forEach(({ value }) => {
+        const key = normalize(value.trim());
+        if (!isDistinctive(value) || drawn.some((used) => countOccurrences(used, key) > 0)) return;
+        if (foreign.some((entry) => normalize(entry.value) === key)) return;
+        if (countOccurrences(text, value) > 0) foreign.push({ field: section.title, value: value.trim() });
+      });
+    });
+
+  const credit = fields.length ? fields.reduce((sum, entry) => sum + STATUS_CREDIT[entry.status], 0) / fields.length : 1;
+  const score = Math.max(0, Math.round(credit * 100) - FOREIGN_PENALTY * foreign.length);
+  return { fields, foreign, score };
+}
+
+/**
+ * Mean score over the reports given (null when there are none)
+ */
+export function averageFidelity(reports: (FidelityReport | null | undefined)[]): number | null {
+  const scores = reports.filter((report): report is FidelityReport => Boolean(report)).map((report) => report.score);
+  return scores.length ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { matchColumnsToSections, parseDelimited, parseImportFile, planListImport } from "./importers";
+import type { SectionData } from "../services/presetService";
+
+const section = (id: string, title: string, list = ""): SectionData => ({
+  id, title, list, selections: [], isRandomized: true,
+});
+
+describe("importers", () => {
+  it("parses quoted CSV cells", () => {
+    expect(parseDelimited('Weather,Lens\n"Stormy, windy",35mm\r\n"Say ""hi""",\n', ",")).toEqual([
+      ["Weather", "Lens"],
+      ["Stormy, windy", "35mm"],
+      ['Say "hi"', ""],
+    ]);
+  });
+
+  it("reads CSV, TSV, text and JSON files into columns", () => {
+    expect(parseImportFile("lists.csv", "Weather,Lens\nStormy,35mm\nClear,")).toEqual([
+      { name: "Weather", entries: ["Stormy", "Clear"] },
+      { name: "Lens", entries: ["35mm"] },
+    ]);
+    expect(parseImportFile("lists.tsv", "Weather\tLens\nFoggy\t85mm")[1]).toEqual({ name: "Lens", entries: ["85mm"] });
+    expect(parseImportFile("weather.txt", "Stormy\n\n Clear \n")).toEqual([{ name: null, entries: ["Stormy", "Clear"] }]);
+    expect(parseImportFile("weather.json", '["Stormy", "Clear"]')).toEqual([{ name: null, entries: ["Stormy", "Clear"] }]);
+    expect(parseImportFile("lists.json", '{"Weather": ["Stormy"], "Lens": "35mm"}')).toEqual([
+      { name: "Weather", entries: ["Stormy"] },
+      { name: "Lens", entries: ["35mm"] },
+    ]);
+    expect(() => parseImportFile("lists.json", "{oops")).toThrow(/Invalid JSON/);
+  });
+
+  it("matches columns to section titles", () => {
+    const sections = [section("w", "Weather"), section("l", "Lens")];
+    const columns = parseImportFile("lists.csv", "weather,Mood\nStormy,Calm");
+    const { matches, unmatched } = matchColumnsToSections(columns, sections);
+    expect(matches.map((m) => m.section.id)).toEqual(["w"]);
+    expect(unmatched.map((c) => c.name)).toEqual(["Mood"]);
+
+    // A lone unnamed list goes to the section being imported into
+    const single = matchColumnsToSections(parseImportFile("x.txt", "Stormy"), [sections[1]]);
+    expect(single.matches[0].section.id).toBe("l");
+  });
+
+  it("merges new entries and reports duplicates", () => {
+    const plan = planListImport("Stormy, Clear::2", ["clear", "Foggy", "Overcast::3", "foggy"], "merge");
+    expect(plan.list).toBe("Stormy, Clear::2, Foggy, Overcast::3");
+    expect(plan.added).toEqual(["Foggy", "Overcast"]);
+    expect(plan.duplicates).toEqual(["clear", "foggy"]);
+    expect(plan.removed).toEqual([]);
+  });
+
+  it("replaces the list and reports removed entries", () => {
+    const plan = planListImport("Stormy, Clear", ["Clear", "Foggy"], "replace");
+    expect(plan.list).toBe("Clear, Foggy");
+    expect(plan.added).toEqual(["Foggy"]);
+    expect(plan.removed).toEqual(["Stormy"]);
+  });
+});
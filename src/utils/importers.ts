@@ -0,0 +1,222 @@
+// src/utils/importers.ts
+import type { SectionData } from "../services/presetService";
+import { formatWeightedEntry, toWeightedList } from "./random";
+
+/**
+ * Import section lists from files:
+ * - CSV / TSV: one column per section, matched to section titles by the header row
+ * - Plain text: one entry per line
+ * - JSON: an array of entries, an object of `{ "Section": [entries] }`, or an array of row objects
+ */
+
+export type ImportSource = "csv" | "tsv" | "text" | "json";
+export type ImportMode = "merge" | "replace";
+
+export interface ImportedColumn {
+  // Header / key the column came from; null when the file has a single unnamed list
+  name: string | null;
+  entries: string[];
+}
+
+export function detectImportSource(fileName: string, text: string): ImportSource {
+  const ext = fileName.toLowerCase().split(".").pop();
+  if (ext === "csv") return "csv";
+  if (ext === "tsv" || ext === "tab") return "tsv";
+  if (ext === "json") return "json";
+  if (ext === "txt" || ext === "list") return "text";
+  const trimmed = text.trim();
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) return "json";
+  return trimmed.split(/\r?\n/)[0].includes("\t") ? "tsv" : "text";
+}
+
+/**
+ * Split delimited text into rows of cells; double-quoted cells may contain delimiters,
+ * doubled quotes and line breaks.
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && !cell.trim()) {
+      quoted = true;
+      cell = "";
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim()));
+}
+
+function columnsFromRows(rows: string[][]): ImportedColumn[] {
+  const [header = [], ...body] = rows;
+  return header
+    .map((name, col) => ({
+      name: name.trim(),
+      entries: body.map((r) => (r[col] ?? "").trim()).filter(Boolean),
+    }))
+    .filter((column) => column.name);
+}
+
+const entryText = (value: unknown) => (value === null || value === undefined ? "" : String(value).trim());
+
+function columnsFromJson(data: unknown): ImportedColumn[] {
+  if (Array.isArray(data)) {
+    if (data.every((v) => v === null || typeof v !== "object")) {
+      return [{ name: null, entries: data.map(entryText).filter(Boolean) }];
+    }
+    // Array of row objects: one column per key
+    const columns = new Map<string, string[]>();
+    data.forEach((row) => {
+      if (!row || typeof row !== "object" || Array.isArray(row)) return;
+      Object.entries(row).forEach(([key, value]) => {
+        const entry = entryText(value);
+        if (!columns.has(key)) columns.set(key, []);
+        if (entry) columns.get(key)!.push(entry);
+      });
+    });
+    return Array.from(columns, ([name, entries]) => ({ name, entries }));
+  }
+  if (data && typeof data === "object") {
+    return Object.entries(data).map(([name, value]) => ({
+      name,
+      entries: (Array.isArray(value) ? value : [value]).map(entryText).filter(Boolean),
+    }));
+  }
+  throw new Error("JSON import must be an array of entries or an object of section lists");
+}
+
+export function parseImportFile(fileName: string, text: string): ImportedColumn[] {
+  const source = detectImportSource(fileName, text);
+  switch (source) {
+    case "csv":
+      return columnsFromRows(parseDelimited(text, ","));
+    case "tsv":
+      return columnsFromRows(parseDelimited(text, "\t"));
+    case "json": {
+      let data: unknown;
+      try {
+        data = JSON.parse(text);
+      } catch (e: any) {
+        throw new Error(`Invalid JSON: ${e.message || e}`);
+      }
+      return columnsFromJson(data);
+    }
+    default:
+      return [{ name: null, entries: text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean) }];
+  }
+}
+
+/**
+ * Pair imported columns with sections by title (case-insensitive).
+ * When importing into a single section, an unnamed or lone column is used even if its name differs.
+ */
+export function matchColumnsToSections(
+  columns: ImportedColumn[],
+  sections: SectionData[]
+): { matches: { section: SectionData; column: ImportedColumn }[]; unmatched: ImportedColumn[] } {
+  const byTitle = (name: string | null) =>
+    sections.find((s) => name !== null && s.title.trim().toLowerCase() === name.trim().toLowerCase());
+
+  if (sections.length === 1) {
+    const column = columns.find((c) => byTitle(c.name)) || (columns.length === 1 ? columns[0] : undefined);
+    return {
+      matches: column ? [{ section: sections[0], column }] : [],
+      unmatched: columns.filter((c) => c !== column),
+    };
+  }
+
+  const matches: { section: SectionData; column: ImportedColumn }[] = [];
+  const unmatched: ImportedColumn[] = [];
+  columns.forEach((column) => {
+    const section = byTitle(column.name);
+    if (section && !matches.some((m) => m.section.id === section.id)) {
+      matches.push({ section, column });
+    } else {
+      unmatched.push(column);
+    }
+  });
+  return { matches, unmatched };
+}
+
+export interface ListImportPlan {
+  list: string;
+  // Values new to the list
+  added: string[];
+  // Imported values already in the list (or repeated in the file)
+  duplicates: string[];
+  // Values dropped from the list (replace mode only)
+  removed: string[];
+}
+
+/**
+ * Work out how imported entries combine with a section's list text.
+ * Entries are parsed the way the editor parses lists (commas and newlines separate
+ * entries, `::weight` suffixes are kept), so the preview matches what the section will hold.
+ */
+export function planListImport(currentList: string, entries: string[], mode: ImportMode): ListImportPlan {
+  const existing = toWeightedList(currentList);
+  const existingKeys = new Set(existing.map((o) => o.value.toLowerCase()));
+  const parsed = entries.flatMap((entry) => toWeightedList(entry));
+  const imported = toWeightedList(parsed.map((o) => formatWeightedEntry(o.value, o.weight)).join("\n"));
+  const importedKeys = new Set(imported.map((o) => o.value.toLowerCase()));
+
+  if (mode === "replace") {
+    return {
+      list: imported.map((o) => formatWeightedEntry(o.value, o.weight)).join(", "),
+      added: imported.filter((o) => !existingKeys.has(o.value.toLowerCase())).map((o) => o.value),
+      duplicates: dedupedValues(parsed),
+      removed: existing.filter((o) => !importedKeys.has(o.value.toLowerCase())).map((o) => o.value),
+    };
+  }
+
+  const fresh = imported.filter((o) => !existingKeys.has(o.value.toLowerCase()));
+  const kept = currentList.replace(/[\s,]+$/, "");
+  const addition = fresh.map((o) => formatWeightedEntry(o.value, o.weight)).join(", ");
+  return {
+    list: kept && addition ? `${kept}, ${addition}` : kept || addition,
+    added: fresh.map((o) => o.value),
+    duplicates: [
+      ...imported.filter((o) => existingKeys.has(o.value.toLowerCase())).map((o) => o.value),
+      ...dedupedValues(parsed),
+    ],
+    removed: [],
+  };
+}
+
+// Values that appear more than once within the imported entries
+function dedupedValues(parsed: { value: string }[]): string[] {
+  const seen = new Set<string>();
+  const repeats: string[] = [];
+  parsed.forEach((o) => {
+    const key = o.value.toLowerCase();
+    if (seen.has(key)) repeats.push(o.value);
+    seen.add(key);
+  });
+  return repeats;
+}
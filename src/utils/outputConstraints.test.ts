@@ -0,0 +1,110 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ChatMessage } from "../services/llmProviders";
+import { buildRepairMessage, checkOutput, findForbiddenTerms, generateChecked, hasOutputConstraints, OutputConstraints } from "./outputConstraints";
+
+const payload = { Lens: "35mm prime", Post: "soft film grain" };
+
+const kinds = (text: string, constraints: OutputConstraints) => checkOutput(text, constraints, payload).map((v) => v.kind);
+
+describe("output constraints", () => {
+  it("checks the word range and single line", () => {
+    expect(kinds("one two three", { minWords: 2, maxWords: 3 })).toEqual([]);
+    expect(kinds("one", { minWords: 2 })).toEqual(["minWords"]);
+    expect(kinds("one two three four", { maxWords: 3 })).toEqual(["maxWords"]);
+    expect(kinds("first line\nsecond line", { singleLine: true })).toEqual(["singleLine"]);
+    expect(kinds("  trailing newline is fine\n", { singleLine: true })).toEqual([]);
+  });
+
+  it("matches forbidden terms as whole words, with a trailing * for longer words", () => {
+    const terms = ["ethereal", "evok*", "dream like"];
+    expect(findForbiddenTerms("An Ethereal glow evokes a dream  like haze; not etherealness.", terms)).toEqual([
+      { term: "ethereal", start: 3, end: 11 },
+      { term: "evok*", start: 17, end: 23 },
+      { term: "dream like", start: 26, end: 37 },
+    ]);
+    expect(checkOutput("It evokes and evoked", { forbiddenTerms: ["evok*"] }).map((v) => v.message)).toEqual([
+      'It uses the forbidden term "evokes".',
+      'It uses the forbidden term "evoked".',
+    ]);
+  });
+
+  it("fills prefix and suffix patterns from the payload", () => {
+    const constraints = { requiredPrefix: "A cinematic *", requiredSuffix: "Shot on a {{Lens}}, with {{Post}}" };
+    expect(kinds("A cinematic view. Shot on a 35mm prime, with soft film grain.", constraints)).toEqual([]);
+    expect(kinds("a  cinematic view. Shot on a 35MM prime, with soft film grain", constraints)).toEqual([]);
+    expect(checkOutput("A view. Shot on a 50mm, with soft film grain.", constraints, payload).map((v) => v.message)).toEqual([
+      'It must start with "A cinematic …".',
+      'It must end with "Shot on a 35mm prime, with soft film grain".',
+    ]);
+  });
+
+  it("ignores empty constraints", () => {
+    expect(hasOutputConstraints({})).toBe(false);
+    expect(hasOutputConstraints({ forbiddenTerms: [" "], requiredSuffix: "" })).toBe(false);
+    expect(hasOutputConstraints({ maxWords: 200 })).toBe(true);
+    expect(checkOutput("anything", undefined)).toEqual([]);
+  });
+
+  it("re-sends with a corrective follow-up until the output passes or repairs run out", async () => {
+    const sent: ChatMessage[][] = [];
+    const answers = ["too many words here", "still too many", "fine now"];
+    const send = async (messages: ChatMessage[]) => {
+      sent.push(messages);
+      return answers[sent.length - 1];
+    };
+    const messages: ChatMessage[] = [{ role: "user", content: "{}" }];
+
+    const repaired = await generateChecked(messages, { maxWords: 2, repairAttempts: 3 }, {}, send);
+    expect(repaired).toEqual({ text: "fine now", violations: [], repairs: 2 });
+    expect(sent[2]).toEqual([
+      ...messages,
+      { role: "assistant", content: "still too many" },
+      { role: "user", content: buildRepairMessage([{ kind: "maxWords", message: "It has 3 words; the limit is 2." }]) },
+    ]);
+
+    sent.length = 0;
+    const flagged = await generateChecked(messages, { maxWords: 2, repairAttempts: 1 }, {}, send);
+    expect(flagged.repairs).toBe(1);
+    expect(flagged.violations.map((v) => v.kind)).toEqual(["maxWords"]);
+    expect(sent).toHaveLength(2);
+  });
+
+  it("repairs structured replies as a whole JSON object", async () => {
+    const fields = [{ name: "prompt" }, { name: "title" }];
+    const sent: ChatMessage[][] = [];
+    const answers = ['{"prompt":"far too many words","title":"Long"}', '{"prompt":"short now","title":"Short"}'];
+    const send = async (messages: ChatMessage[]) => {
+      sent.push(messages);
+      return answers[sent.length - 1];
+    };
+    const messages: ChatMessage[] = [{ role: "user", content: "{}" }];
+
+    const repaired = await generateChecked(messages, { maxWords: 2, repairAttempts: 1 }, {}, send, fields);
+    expect(repaired).toEqual({ text: "short now", fields: { prompt: "short now", title: "Short" }, violations: [], repairs: 1 });
+    // The raw JSON is replayed, and the follow-up asks for the object again
+    expect(sent[1][1]).toEqual({ role: "assistant", content: answers[0] });
+    expect(sent[1][2].content).toContain('The "prompt" field of your answer breaks these rules:');
+    expect(sent[1][2].content).toContain('Reply with the whole JSON object again, with the rewritten prompt in "prompt".');
+  });
+
+  it("keeps the flagged answer when a corrective re-send fails", async () => {
+    const messages: ChatMessage[] = [{ role: "user", content: "{}" }];
+    const constraints = { maxWords: 2, repairAttempts: 2 };
+
+    const rejecting = vi.fn().mockResolvedValueOnce("too many words here").mockRejectedValueOnce(new Error("HTTP 500"));
+    const failed = await generateChecked(messages, constraints, {}, rejecting);
+    expect(failed).toMatchObject({ text: "too many words here", repairs: 0 });
+    expect(failed.violations.map((v) => v.kind)).toEqual(["maxWords"]);
+    expect(rejecting).toHaveBeenCalledTimes(2);
+
+    const fields = [{ name: "prompt" }];
+    const unparsable = vi.fn().mockResolvedValueOnce('{"prompt":"far too many words"}').mockResolvedValueOnce("Sorry, here it is: short");
+    const flagged = await generateChecked(messages, constraints, {}, unparsable, fields);
+    expect(flagged).toMatchObject({ text: "far too many words", fields: { prompt: "far too many words" }, repairs: 0 });
+    expect(flagged.violations).toHaveLength(1);
+
+    const cancelled = Object.assign(new Error("Cancelled"), { name: "AbortError" });
+    const aborting = vi.fn().mockResolvedValueOnce("too many words here").mockRejectedValueOnce(cancelled);
+    await expect(generateChecked(messages, constraints, {}, aborting)).rejects.toThrow("Cancelled");
+  });
+});
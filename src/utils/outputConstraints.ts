@@ -0,0 +1,207 @@
+// src/utils/outputConstraints.ts
+import type { ChatMessage } from "../services/llmProviders";
+import type { Payload } from "./payloadBuilder";
+import { normalizeOutputFields, OutputField, OutputFieldValues, parseStructuredOutput } from "./structuredOutput";
+import { fillFields } from "./templateRenderer";
+
+/**
+ * Machine-checkable rules a preset sets on each generated prompt, e.g.
+ *   { maxWords: 200, singleLine: true, forbiddenTerms: ["ethereal", "evok*"],
+ *     requiredSuffix: "Shot on a {{Lens}}, with {{Post}}*" }
+ * Prefix/suffix patterns insert payload fields with `{{Field}}`; `*` matches any text.
+ * Forbidden terms match whole words case-insensitively; a trailing `*` also matches longer words.
+ */
+export interface OutputConstraints {
+  minWords?: number;
+  maxWords?: number;
+  singleLine?: boolean;
+  forbiddenTerms?: string[];
+  requiredPrefix?: string;
+  requiredSuffix?: string;
+  // Corrective follow-ups per item before it is left flagged (0 or absent: check only)
+  repairAttempts?: number;
+}
+
+export type ConstraintKind = "minWords" | "maxWords" | "singleLine" | "forbiddenTerm" | "prefix" | "suffix";
+
+export interface OutputViolation {
+  kind: ConstraintKind;
+  message: string;
+}
+
+export interface TermMatch {
+  term: string;
+  start: number;
+  end: number;
+}
+
+export function hasOutputConstraints(constraints: OutputConstraints | undefined): boolean {
+  if (!constraints) return false;
+  const { minWords, maxWords, singleLine, forbiddenTerms, requiredPrefix, requiredSuffix } = constraints;
+  return Boolean(
+    minWords || maxWords || singleLine || forbiddenTerms?.some((term) => term.trim()) || requiredPrefix?.trim() || requiredSuffix?.trim()
+  );
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Letters and digits on either side of a term mean it is part of a longer word
+const WORD_CHAR = "[\\p{L}\\p{N}]";
+
+function termPattern(term: string): RegExp | null {
+  const trimmed = term.trim();
+  const stem = trimmed.replace(/\*+$/, "");
+  if (!stem) return null;
+  const body = escapeRegExp(stem).replace(/\s+/g, "\\s+");
+  const tail = stem === trimmed ? `(?!${WORD_CHAR})` : `${WORD_CHAR}*`;
+  return new RegExp(`(?<!${WORD_CHAR})${body}${tail}`, "giu");
+}
+
+/**
+ * Every occurrence of a forbidden term, in text order (for highlighting).
+ */
+export function findForbiddenTerms(text: string, terms: string[] = []): TermMatch[] {
+  const matches: TermMatch[] = [];
+  terms.forEach((term) => {
+    const pattern = termPattern(term);
+    if (!pattern) return;
+    for (const match of text.matchAll(pattern)) {
+      matches.push({ term: term.trim(), start: match.index!, end: match.index! + match[0].length });
+    }
+  });
+  // Drop matches inside an earlier, longer one
+  return matches
+    .sort((a, b) => a.start - b.start || b.end - a.end)
+    .filter((match, index, sorted) => !sorted.slice(0, index).some((other) => other.end > match.start));
+}
+
+// Filled pattern as a regex body: whitespace-insensitive, `*` for any text
+function patternBody(pattern: string, payload: Payload): string {
+  return fillFields(pattern, payload)
+    .trim()
+    .split("*")
+    .map((piece) => escapeRegExp(piece).replace(/\s+/g, "\\s+"))
+    .join("[\\s\\S]*?");
+}
+
+/**
+ * A prefix/suffix pattern with the payload's fields filled in, as shown to people and the model.
+ */
+export function describePattern(pattern: string, payload: Payload): string {
+  return fillFields(pattern, payload).trim().replace(/\*/g, "…");
+}
+
+/**
+ * Violations of `constraints` by one output; empty when it passes.
+ */
+export function checkOutput(text: string, constraints: OutputConstraints | undefined, payload: Payload = {}): OutputViolation[] {
+  if (!constraints) return [];
+  const violations: OutputViolation[] = [];
+  const output = text.trim();
+  const words = countWords(output);
+
+  if (constraints.minWords && words < constraints.minWords) {
+    violations.push({ kind: "minWords", message: `It has ${words} words; it needs at least ${constraints.minWords}.` });
+  }
+  if (constraints.maxWords && words > constraints.maxWords) {
+    violations.push({ kind: "maxWords", message: `It has ${words} words; the limit is ${constraints.maxWords}.` });
+  }
+  if (constraints.singleLine && /[\r\n]/.test(output)) {
+    violations.push({ kind: "singleLine", message: "It has line breaks; it must be one continuous line of text." });
+  }
+
+  const used = Array.from(new Set(findForbiddenTerms(output, constraints.forbiddenTerms).map((match) => output.slice(match.start, match.end).toLowerCase())));
+  used.forEach((term) => violations.push({ kind: "forbiddenTerm", message: `It uses the forbidden term "${term}".` }));
+
+  if (constraints.requiredPrefix?.trim()) {
+    const prefix = new RegExp(`^${patternBody(constraints.requiredPrefix, payload)}`, "iu");
+    if (!prefix.test(output)) {
+      violations.push({ kind: "prefix", message: `It must start with "${describePattern(constraints.requiredPrefix, payload)}".` });
+    }
+  }
+  if (constraints.requiredSuffix?.trim()) {
+    // Trailing punctuation after the required ending is allowed
+    const suffix = new RegExp(`${patternBody(constraints.requiredSuffix, payload)}[\\s.!]*$`, "iu");
+    if (!suffix.test(output)) {
+      violations.push({ kind: "suffix", message: `It must end with "${describePattern(constraints.requiredSuffix, payload)}".` });
+    }
+  }
+  return violations;
+}
+
+/**
+ * Follow-up asking the model to fix its previous answer.
+ */
+export function buildRepairMessage(violations: OutputViolation[], outputFields: OutputField[] = []): string {
+  // A structured reply is rewritten as a whole; the rules apply to its first field
+  const field = outputFields[0]?.name;
+  return [
+    field ? `The "${field}" field of your answer breaks these rules:` : "Your answer breaks these rules:",
+    ...violations.map((violation) => `- ${violation.message}`),
+    field
+      ? `Rewrite it so it follows every rule and the original instructions. Reply with the whole JSON object again, with the rewritten prompt in "${field}".`
+      : "Rewrite it so it follows every rule and the original instructions. Reply with the rewritten prompt only.",
+  ].join("\n");
+}
+
+export interface CheckedOutput {
+  text: string;
+  // Fields of the final structured reply
+  fields?: OutputFieldValues;
+  // Violations of the final text (empty when it passes)
+  violations: OutputViolation[];
+  // Corrective follow-ups answered (one that fails or is refused ends the repairs)
+  repairs: number;
+}
+
+/**
+ * Send `messages`, then re-send with a corrective follow-up while the answer breaks
+ * a constraint, at most `constraints.repairAttempts` times.
+ * A follow-up that fails (a request error, a budget refusal, an unparsable reply) keeps
+ * the last answer with its violations; only cancellation is rethrown.
+ * With `outputFields`, replies are parsed as structured output (throwing when they don't
+ * match) and the constraints are checked against the first field.
+ */
+export async function generateChecked(
+  messages: ChatMessage[],
+  constraints: OutputConstraints | undefined,
+  payload: Payload,
+  send: (messages: ChatMessage[]) => Promise<string>,
+  fields: OutputField[] = []
+): Promise<CheckedOutput> {
+  const outputFields = normalizeOutputFields(fields);
+  const read = (reply: string) => {
+    if (!outputFields.length) return { reply, text: reply };
+    const fields = parseStructuredOutput(reply, outputFields);
+    return { reply, text: fields[outputFields[0].name], fields };
+  };
+
+  let answer = read(await send(messages));
+  let violations = checkOutput(answer.text, constraints, payload);
+  let repairs = 0;
+  const maxRepairs = Math.max(0, Math.floor(constraints?.repairAttempts ?? 0));
+  while (violations.length && repairs < maxRepairs) {
+    let repaired: typeof answer;
+    try {
+      repaired = read(
+        await send([
+          ...messages,
+          { role: "assistant", content: answer.reply },
+          { role: "user", content: buildRepairMessage(violations, outputFields) },
+        ])
+      );
+    } catch (error: any) {
+      // The answer we have is already paid for: keep it flagged rather than fail the item
+      if (error?.name === "AbortError") throw error;
+      break;
+    }
+    repairs++;
+    answer = repaired;
+    violations = checkOutput(answer.text, constraints, payload);
+  }
+  return { text: answer.text, ...(answer.fields && { fields: answer.fields }), violations, repairs };
+}
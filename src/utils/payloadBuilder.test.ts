@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { buildPayloads, normalizePickCount } from "./payloadBuilder";
+import type { SectionData } from "../services/presetService";
+
+const props: SectionData = {
+  id: "props",
+  title: "Props",
+  list: "lantern, kite, map, compass, rope",
+  selections: [],
+  isRandomized: true,
+  pickCount: { min: 2, max: 3 },
+};
+
+describe("multi-value draws", () => {
+  it("draws between min and max distinct values per item", () => {
+    const payloads = buildPayloads([props], { seedBase: 42, batchSize: 20 });
+    payloads.forEach((payload) => {
+      const values = (payload.Props as string).split(", ");
+      expect(values.length).toBeGreaterThanOrEqual(2);
+      expect(values.length).toBeLessThanOrEqual(3);
+      expect(new Set(values).size).toBe(values.length);
+    });
+  });
+
+  it("writes JSON arrays when asked and stays deterministic under a seed", () => {
+    const section = { ...props, joinStyle: "array" as const };
+    const payloads = buildPayloads([section], { seedBase: 7, batchSize: 5 });
+    payloads.forEach((payload) => expect(Array.isArray(payload.Props)).toBe(true));
+    expect(buildPayloads([section], { seedBase: 7, batchSize: 5 })).toEqual(payloads);
+  });
+
+  it("leaves single-pick sections as plain strings", () => {
+    const [payload] = buildPayloads([{ ...props, pickCount: undefined, joinStyle: "array" }], { seedBase: 1, batchSize: 1 });
+    expect(typeof payload.Props).toBe("string");
+  });
+
+  it("normalizes pick counts", () => {
+    expect(normalizePickCount(undefined)).toEqual({ min: 1, max: 1 });
+    expect(normalizePickCount({ min: 3, max: 1 })).toEqual({ min: 3, max: 3 });
+    expect(normalizePickCount({ min: -2, max: 0 })).toEqual({ min: 0, max: 1 });
+  });
+});
@@ -0,0 +1,156 @@
+// src/utils/payloadBuilder.ts
+import type { SectionData } from "../services/presetService";
+import { ConstraintRule, DrawnValues, filterAllowed, isValueAllowed } from "./constraints";
+import { pickWeighted } from "./random";
+import {
+  CandidatePool,
+  expandWildcards,
+  getWeightedCandidates,
+  makeSectionPlan,
+  makeSectionRng,
+  normalizeSamplingMode
+} from "./randomPicker";
+
+// Multi-pick sections hold a comma-joined string or an array, per their join style
+export type PayloadValue = string | string[];
+export type Payload = Record<string, PayloadValue>;
+
+export type JoinStyle = "comma" | "array";
+
+export interface PickCount {
+  min: number;
+  max: number;
+}
+
+export function normalizePickCount(count: unknown): PickCount {
+  const raw = (count ?? {}) as Partial<PickCount>;
+  const min = Math.max(0, Math.floor(Number(raw.min ?? 1)) || 0);
+  const max = Math.max(min, 1, Math.floor(Number(raw.max ?? min)) || 1);
+  return { min, max };
+}
+
+export function normalizeJoinStyle(style: unknown): JoinStyle {
+  return style === "array" ? "array" : "comma";
+}
+
+export interface BuildPayloadsOptions {
+  seedBase: number;
+  batchSize: number;
+  rules?: ConstraintRule[];
+}
+
+export function sectionPool(section: SectionData): CandidatePool {
+  return {
+    label: section.title,
+    listText: section.list,
+    selections: section.selections,
+    isRandomized: !!section.isRandomized,
+  };
+}
+
+/**
+ * Resolve `__Name__` references against section titles (hidden library sections included).
+ */
+function referenceResolver(sections: SectionData[]) {
+  return (name: string) => {
+    const key = name.trim().toLowerCase();
+    const section = sections.find((s) => s.title?.trim().toLowerCase() === key);
+    return section ? getWeightedCandidates(sectionPool(section)) : undefined;
+  };
+}
+
+/**
+ * Plan every section's draws for the whole batch up front (per its sampling mode).
+ */
+export function buildSectionPlans(sections: SectionData[], seedBase: number, batchSize: number): Record<string, string[]> {
+  const plans: Record<string, string[]> = {};
+  sections.forEach((section) => {
+    const mode = normalizeSamplingMode(section.samplingMode);
+    plans[section.id] = makeSectionPlan(sectionPool(section), mode, Number(seedBase), section.id, batchSize);
+  });
+  return plans;
+}
+
+/**
+ * Draw `count - 1` further distinct values after the planned one, weighted and rule-checked.
+ */
+function drawExtraValues(
+  section: SectionData,
+  first: string,
+  count: number,
+  drawn: DrawnValues,
+  rules: ConstraintRule[],
+  rng: () => number
+): string[] {
+  const picked = [first];
+  let remaining = getWeightedCandidates(sectionPool(section));
+  while (picked.length < count) {
+    const taken = new Set(picked.map((v) => v.toLowerCase()));
+    remaining = filterAllowed(section.title, remaining.filter((o) => !taken.has(o.value.toLowerCase())), drawn, rules);
+    if (!remaining.length) break;
+    picked.push(pickWeighted(remaining, rng).trim());
+  }
+  return picked;
+}
+
+/**
+ * Build one payload from the batch plan. The planned value is the first pick for
+ * each section; multi-pick sections then draw extra distinct values.
+ * When a planned value breaks a rule against values drawn earlier in the item,
+ * it is redrawn from the allowed candidates; if none are allowed the field is left out.
+ * Wildcards in the chosen entries are then expanded; hidden sections never reach the payload.
+ */
+export function buildPayload(
+  sections: SectionData[],
+  plans: Record<string, string[]>,
+  batchIndex: number,
+  seedBase: number,
+  rules: ConstraintRule[] = []
+): Payload {
+  const payload: Payload = {};
+  const drawn: DrawnValues = {};
+  const resolveReference = referenceResolver(sections);
+
+  sections.forEach((section) => {
+    if (!section.title?.trim()) return; // skip untitled sections
+    if (section.isHidden) return; // library-only lists are drawn through references
+
+    let val = plans[section.id]?.[batchIndex]?.trim();
+    if (val && !isValueAllowed(section.title, val, drawn, rules)) {
+      const allowed = filterAllowed(section.title, getWeightedCandidates(sectionPool(section)), drawn, rules);
+      const rng = makeSectionRng(Number(seedBase), batchIndex, `${section.id}:rules`);
+      val = pickWeighted(allowed, rng).trim();
+    }
+
+    if (!val) return; // only add non-empty values
+
+    const { min, max } = normalizePickCount(section.pickCount);
+    let values = [val];
+    if (max > 1 || min !== 1) {
+      const rng = makeSectionRng(Number(seedBase), batchIndex, `${section.id}:picks`);
+      const count = min + Math.floor(rng() * (max - min + 1));
+      if (count === 0) return;
+      values = drawExtraValues(section, val, count, drawn, rules, rng);
+    }
+    drawn[section.title] = values; // rules match entries as listed, before expansion
+
+    const rng = makeSectionRng(Number(seedBase), batchIndex, `${section.id}:expand`);
+    const expanded = values
+      .map((v) => expandWildcards(v, { rng, resolveReference }, [section.title.trim().toLowerCase()]).trim())
+      .filter(Boolean);
+    if (!expanded.length) return;
+
+    if (max > 1 && normalizeJoinStyle(section.joinStyle) === "array") {
+      payload[section.title] = expanded;
+    } else {
+      payload[section.title] = expanded.join(", ");
+    }
+  });
+  return payload;
+}
+
+export function buildPayloads(sections: SectionData[], options: BuildPayloadsOptions): Payload[] {
+  const batchSize = Math.max(1, Number(options.batchSize) || 1);
+  const plans = buildSectionPlans(sections, options.seedBase, batchSize);
+  return Array.from({ length: batchSize }, (_, i) => buildPayload(sections, plans, i, options.seedBase, options.rules));
+}
@@ -20,21 +20,93 @@ export function pickOne<T>(arr: T[], rng: () => number): T {
   return arr[i];
 }
 
+export interface WeightedOption {
+  value: string;
+  weight: number;
+}
+
+// Trailing `::<number>` on a list entry, e.g. "Overcast::3" or "Stormy :: 0.5".
+// A double colon, so entries like "aspect 16:9" stay plain text.
+const WEIGHT_SUFFIX = /^(.*\S)\s*::\s*(\d+(?:\.\d+)?)$/;
+
 /**
- * Convert text to a list of unique, trimmed strings
+ * Split a single list entry into its value and weight (default 1)
  */
-export function toList(text: string): string[] {
+export function parseWeightedEntry(entry: string): WeightedOption {
+  const trimmed = (entry ?? "").trim();
+  const match = trimmed.match(WEIGHT_SUFFIX);
+  if (!match) return { value: trimmed, weight: 1 };
+  return { value: match[1].trim(), weight: Number(match[2]) };
+}
+
+/**
+ * Inverse of parseWeightedEntry; weight 1 is written without a suffix
+ */
+export function formatWeightedEntry(value: string, weight: number): string {
+  return weight === 1 ? value : `${value}::${Number(weight.toFixed(2))}`;
+}
+
+/**
+ * Convert text to a list of unique, trimmed options with their weights.
+ * Duplicates (case-insensitive) keep the first occurrence.
+ */
+export function toWeightedList(text: string): WeightedOption[] {
   if (!text) return [];
   const raw = text
     .split(/[\n,]/g)
-    .map((s) => s.trim())
-    .filter(Boolean);
+    .map(parseWeightedEntry)
+    .filter((o) => o.value);
   const seen = new Set();
-  return raw.filter((t) =>
-    seen.has(t.toLowerCase()) ? false : (seen.add(t.toLowerCase()), true)
+  return raw.filter((o) =>
+    seen.has(o.value.toLowerCase()) ? false : (seen.add(o.value.toLowerCase()), true)
   );
 }
 
+/**
+ * Convert text to a list of unique, trimmed strings (weights stripped)
+ */
+export function toList(text: string): string[] {
+  return toWeightedList(text).map((o) => o.value);
+}
+
+/**
+ * Rewrite the weight of one entry in list text, keeping the other entries
+ * and separators as typed.
+ */
+export function setEntryWeight(text: string, value: string, weight: number): string {
+  const key = value.trim().toLowerCase();
+  let done = false;
+  return (text || "")
+    .split(/([\n,])/g)
+    .map((part) => {
+      if (done || part === "\n" || part === ",") return part;
+      const parsed = parseWeightedEntry(part);
+      if (parsed.value.toLowerCase() !== key) return part;
+      done = true;
+      const leading = part.match(/^\s*/)?.[0] ?? "";
+      const trailing = part.match(/\s*$/)?.[0] ?? "";
+      return `${leading}${formatWeightedEntry(parsed.value, Math.max(0, weight))}${trailing}`;
+    })
+    .join("");
+}
+
+/**
+ * Pick an option with probability proportional to its weight.
+ * Falls back to a uniform pick when every weight is zero.
+ */
+export function pickWeighted(options: WeightedOption[], rng: () => number): string {
+  if (!options || options.length === 0) return "";
+  const total = options.reduce((sum, o) => sum + Math.max(0, o.weight), 0);
+  if (total <= 0) return pickOne(options, rng).value;
+
+  let r = rng() * total;
+  for (const o of options) {
+    r -= Math.max(0, o.weight);
+    if (r < 0) return o.value;
+  }
+  return options[options.length - 1].value;
+}
+
 /**
  * Sleep utility for delays
  */
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { expandWildcards, getWeightedCandidates, makeSectionPlan, pickOneValue } from "./randomPicker";
+import { mulberry32, setEntryWeight, toList, toWeightedList } from "./random";
+import { buildPayloads } from "./payloadBuilder";
+
+describe("weighted options", () => {
+  it("parses weights and strips them from plain lists", () => {
+    expect(toWeightedList("Overcast::3, Stormy :: 0.5\nClear")).toEqual([
+      { value: "Overcast", weight: 3 },
+      { value: "Stormy", weight: 0.5 },
+      { value: "Clear", weight: 1 },
+    ]);
+    expect(toList("Overcast::3, overcast, Clear")).toEqual(["Overcast", "Clear"]);
+  });
+
+  it("reads a single colon and number as part of the entry", () => {
+    expect(toWeightedList("aspect 16:9, 4:3::2")).toEqual([
+      { value: "aspect 16:9", weight: 1 },
+      { value: "4:3", weight: 2 },
+    ]);
+  });
+
+  it("keeps list weights for selected options", () => {
+    const candidates = getWeightedCandidates({
+      label: "Weather",
+      listText: "Overcast::3, Stormy, Clear::0.5",
+      selections: ["Overcast", "Clear"],
+      isRandomized: true,
+    });
+    expect(candidates).toEqual([
+      { value: "Overcast", weight: 3 },
+      { value: "Clear", weight: 0.5 },
+    ]);
+  });
+
+  it("biases draws towards heavier options", () => {
+    const pool = { label: "Weather", listText: "Overcast::9, Stormy::1", isRandomized: true };
+    const counts: Record<string, number> = {};
+    for (let i = 0; i < 500; i++) {
+      const value = pickOneValue(pool, 42, i, "weather");
+      counts[value] = (counts[value] || 0) + 1;
+    }
+    expect(counts.Overcast).toBeGreaterThan(counts.Stormy * 4);
+  });
+
+  it("never draws zero-weight options", () => {
+    const pool = { label: "Weather", listText: "Overcast, Stormy::0", isRandomized: true };
+    for (let i = 0; i < 50; i++) {
+      expect(pickOneValue(pool, 7, i, "weather")).toBe("Overcast");
+    }
+  });
+
+  it("rewrites a single entry's weight in place", () => {
+    expect(setEntryWeight("Overcast, Stormy::2\nClear", "stormy", 3)).toBe("Overcast, Stormy::3\nClear");
+    expect(setEntryWeight("Overcast::2, Clear", "Overcast", 1)).toBe("Overcast, Clear");
+  });
+});
+
+describe("makeSectionPlan", () => {
+  const pool = { label: "Time", listText: "dawn, noon, dusk, night", isRandomized: true };
+
+  it("balanced plans use every option equally", () => {
+    const plan = makeSectionPlan(pool, "balanced", 3, "time", 8);
+    const counts = plan.reduce<Record<string, number>>((acc, v) => ({ ...acc, [v]: (acc[v] || 0) + 1 }), {});
+    expect(Object.values(counts)).toEqual([2, 2, 2, 2]);
+  });
+
+  it("no-repeat plans exhaust the pool before repeating", () => {
+    const plan = makeSectionPlan(pool, "noRepeat", 11, "time", 6);
+    expect(new Set(plan.slice(0, 4)).size).toBe(4);
+    expect(plan).toHaveLength(6);
+  });
+
+  it("random plans match independent single draws", () => {
+    const plan = makeSectionPlan(pool, "random", 5, "time", 3);
+    expect(plan).toEqual([0, 1, 2].map((i) => pickOneValue(pool, 5, i, "time")));
+  });
+
+  it("is deterministic under a fixed seed", () => {
+    expect(makeSectionPlan(pool, "noRepeat", 9, "time", 8)).toEqual(makeSectionPlan(pool, "noRepeat", 9, "time", 8));
+  });
+});
+
+describe("expandWildcards", () => {
+  const lists: Record<string, string> = {
+    prop: "a {red|green} umbrella",
+    loop: "__Other__",
+    other: "back to __Loop__",
+  };
+  const resolveReference = (name: string) =>
+    lists[name.toLowerCase()] !== undefined ? toWeightedList(lists[name.toLowerCase()]) : undefined;
+
+  it("expands alternation and nested references", () => {
+    const text = expandWildcards("HWS14 holding __Prop__", { rng: mulberry32(1), resolveReference });
+    expect(["HWS14 holding a red umbrella", "HWS14 holding a green umbrella"]).toContain(text);
+  });
+
+  it("leaves unknown references untouched", () => {
+    expect(expandWildcards("with __Missing__", { rng: mulberry32(1), resolveReference })).toBe("with __Missing__");
+  });
+
+  it("detects reference cycles", () => {
+    expect(() => expandWildcards("__Loop__", { rng: mulberry32(1), resolveReference })).toThrow(/cycle/i);
+  });
+
+  it("resolves references to hidden library sections in payloads, deterministically", () => {
+    const sections = [
+      { id: "pre", title: "Pre", list: "HWS14 holding __Prop__", selections: [], isRandomized: true },
+      { id: "prop", title: "Prop", list: "a {red|blue} kite, a lantern", selections: [], isRandomized: true, isHidden: true },
+    ];
+    const payloads = buildPayloads(sections, { seedBase: 3, batchSize: 5 });
+    payloads.forEach((payload) => {
+      expect(Object.keys(payload)).toEqual(["Pre"]);
+      expect(payload.Pre).toMatch(/^HWS14 holding (a (red|blue) kite|a lantern)$/);
+    });
+    expect(buildPayloads(sections, { seedBase: 3, batchSize: 5 })).toEqual(payloads);
+  });
+});
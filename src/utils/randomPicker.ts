@@ -1,5 +1,19 @@
 // src/utils/randomPicker.ts
-import { mulberry32, toList } from "./random";
+import { mulberry32, parseWeightedEntry, pickWeighted, toList, toWeightedList, WeightedOption } from "./random";
+
+/**
+ * How a section draws across a batch:
+ * - random: independent draw per item
+ * - balanced: cycle through every option across the batch
+ * - noRepeat: draw without replacement until the pool is exhausted, then refill
+ */
+export type SamplingMode = "random" | "balanced" | "noRepeat";
+
+export const SAMPLING_MODES: SamplingMode[] = ["random", "balanced", "noRepeat"];
+
+export function normalizeSamplingMode(mode: unknown): SamplingMode {
+  return SAMPLING_MODES.includes(mode as SamplingMode) ? (mode as SamplingMode) : "random";
+}
 
 export type CandidatePool = {
   // human label mainly for debugging
@@ -42,10 +56,25 @@ function normalizeUniqueCaseInsensitive(arr: string[]) {
 export function getCandidates(pool: CandidatePool): string[] {
   const base = pool.selections && pool.selections.length > 0
     ? pool.selections
-    : (pool.listArray ?? toList(pool.listText || ""));
+    : (pool.listArray?.map(s => parseWeightedEntry(s).value) ?? toList(pool.listText || ""));
   return normalizeUniqueCaseInsensitive(base || []);
 }
 
+/**
+ * Candidates with weights. Selections keep the weight their entry has in the list text.
+ */
+export function getWeightedCandidates(pool: CandidatePool): WeightedOption[] {
+  const listed = pool.listArray
+    ? pool.listArray.map(parseWeightedEntry)
+    : toWeightedList(pool.listText || "");
+  const weights = new Map(listed.map(o => [o.value.toLowerCase(), o.weight]));
+
+  return getCandidates(pool).map(value => ({
+    value,
+    weight: weights.get(value.toLowerCase()) ?? 1,
+  }));
+}
+
 /**
  * Per-section RNG so different sections don't share the same stream.
  * seedBase = -1 => fully random; else deterministic per (seedBase, batchIndex, sectionId).
@@ -60,7 +89,7 @@ export function makeSectionRng(seedBase: number, batchIndex: number, sectionId:
 
 /**
  * Single draw: always return exactly one value.
- * For randomized sections: picks randomly from candidates
+ * For randomized sections: picks randomly from candidates, honouring `Option::weight`
  * For non-randomized sections: cycles through candidates based on batchIndex
  */
 export function pickOneValue(
@@ -74,8 +103,7 @@ export function pickOneValue(
   
   if (pool.isRandomized) {
     const rng = makeSectionRng(seedBase, batchIndex, sectionId);
-    const idx = Math.floor(rng() * candidates.length);
-    return candidates[idx];
+    return pickWeighted(getWeightedCandidates(pool), rng);
   }
   
   // Non-randomized: cycle through candidates based on batch index
@@ -128,3 +156,110 @@ export function makeBalancedPlan(
   }
   return picks;
 }
+
+/**
+ * Without-replacement plan across a batch:
+ * - Randomized sections draw from a shuffled bag (weighted by `Option::weight`),
+ *   refilling it once every option has been used
+ * - Non-randomized sections cycle through in original order
+ */
+export function makeNoRepeatPlan(
+  pool: CandidatePool,
+  seedBase: number,
+  sectionId: string,
+  batchSize: number
+): string[] {
+  const weighted = getWeightedCandidates(pool);
+  if (weighted.length === 0) return Array(batchSize).fill("");
+  if (!pool.isRandomized) {
+    return Array.from({ length: batchSize }, (_, b) => weighted[b % weighted.length].value);
+  }
+
+  const rng = (Number(seedBase) === -1)
+    ? Math.random
+    : mulberry32((Number(seedBase) || 0) + hash32(sectionId));
+
+  // Zero-weight options stay out of the bag unless nothing else is left
+  const positive = weighted.filter(o => o.weight > 0);
+  const bag = positive.length ? positive : weighted.map(o => ({ ...o, weight: 1 }));
+
+  const picks: string[] = [];
+  while (picks.length < batchSize) {
+    // Weighted shuffle (Efraimidis–Spirakis): heavier options tend to come out earlier
+    const order = bag
+      .map(o => ({ value: o.value, key: Math.pow(rng(), 1 / o.weight) }))
+      .sort((a, b) => b.key - a.key);
+    for (const o of order) {
+      if (picks.length >= batchSize) break;
+      picks.push(o.value);
+    }
+  }
+  return picks;
+}
+
+/**
+ * Decide a section's value for every item in the batch up front.
+ */
+export function makeSectionPlan(
+  pool: CandidatePool,
+  mode: SamplingMode,
+  seedBase: number,
+  sectionId: string,
+  batchSize: number
+): string[] {
+  switch (mode) {
+    case "balanced":
+      return makeBalancedPlan(pool, seedBase, sectionId, batchSize);
+    case "noRepeat":
+      return makeNoRepeatPlan(pool, seedBase, sectionId, batchSize);
+    default:
+      return Array.from({ length: batchSize }, (_, b) => pickOneValue(pool, seedBase, b, sectionId));
+  }
+}
+
+export interface ExpansionContext {
+  rng: () => number;
+  // Weighted candidates for a `__Name__` reference (another section or a library list)
+  resolveReference: (name: string) => WeightedOption[] | undefined;
+}
+
+// Innermost `{a|b|c}` group (must contain at least one `|`)
+const ALTERNATION = /\{([^{}]*\|[^{}]*)\}/;
+// `__Name__` reference; names may contain spaces and slashes ("__Time of Day__")
+const REFERENCE = /__([^_\s](?:[^_]|_(?!_))*?)__/;
+
+/**
+ * Expand inline alternation and references inside a list entry, e.g.
+ * "a {red|green|blue} tank top" or "HWS14 holding __Prop__".
+ * References are expanded recursively; a reference that leads back to itself throws.
+ * Unknown references are left as written.
+ */
+export function expandWildcards(text: string, ctx: ExpansionContext, stack: string[] = []): string {
+  let out = text ?? "";
+
+  // Alternation first, innermost outwards, so "{a|{b|c}}" works
+  for (let match = out.match(ALTERNATION); match; match = out.match(ALTERNATION)) {
+    const choices = match[1].split("|").map(parseWeightedEntry);
+    out = out.slice(0, match.index) + pickWeighted(choices, ctx.rng) + out.slice(match.index! + match[0].length);
+  }
+
+  let result = "";
+  let rest = out;
+  for (let match = rest.match(REFERENCE); match; match = rest.match(REFERENCE)) {
+    const name = match[1].trim();
+    const key = name.toLowerCase();
+    result += rest.slice(0, match.index);
+    rest = rest.slice(match.index! + match[0].length);
+
+    if (stack.includes(key)) {
+      throw new Error(`Wildcard cycle: ${[...stack, key].join(" → ")}`);
+    }
+    const options = ctx.resolveReference(name);
+    if (!options) {
+      result += match[0];
+      continue;
+    }
+    result += expandWildcards(pickWeighted(options, ctx.rng), ctx, [...stack, key]);
+  }
+  return result + rest;
+}
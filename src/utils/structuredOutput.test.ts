@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { describeOutputFields, normalizeOutputFields, outputJsonSchema, parseStructuredOutput, StructuredOutputError } from "./structuredOutput";
+
+const fields = [
+  { name: "prompt", description: "The positive image prompt" },
+  { name: " negativePrompt " },
+  { name: "Prompt" },
+  { name: "" },
+];
+
+describe("structured output", () => {
+  it("normalizes field names and builds a strict schema", () => {
+    expect(normalizeOutputFields(fields).map((field) => field.name)).toEqual(["prompt", "negativePrompt"]);
+    expect(outputJsonSchema(fields)).toEqual({
+      type: "object",
+      properties: {
+        prompt: { type: "string", description: "The positive image prompt" },
+        negativePrompt: { type: "string" },
+      },
+      required: ["prompt", "negativePrompt"],
+      additionalProperties: false,
+    });
+    expect(describeOutputFields(fields)).toContain('goes in "prompt"');
+  });
+
+  it("parses replies, tolerating code fences", () => {
+    expect(parseStructuredOutput('{"prompt":" A harbour. ","negativePrompt":"blur","extra":1}', fields)).toEqual({
+      prompt: "A harbour.",
+      negativePrompt: "blur",
+    });
+    expect(parseStructuredOutput('```json\n{"prompt":"A","negativePrompt":""}\n```', fields)).toEqual({ prompt: "A", negativePrompt: "" });
+  });
+
+  it("rejects replies that don't match the fields", () => {
+    expect(() => parseStructuredOutput("A harbour at dawn.", fields)).toThrow(StructuredOutputError);
+    expect(() => parseStructuredOutput('["prompt"]', fields)).toThrow("not a JSON object");
+    expect(() => parseStructuredOutput('{"prompt":3}', fields)).toThrow('"prompt" is not a string, "negativePrompt" is missing');
+  });
+});
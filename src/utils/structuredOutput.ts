@@ -0,0 +1,98 @@
+// src/utils/structuredOutput.ts
+
+/**
+ * Structured outputs: a preset can ask for several named text fields per prompt
+ * (e.g. prompt, negative prompt, title, alt text). Providers are asked for JSON matching
+ * a schema built from the fields, and every reply is validated before it is accepted.
+ * The first field is the item's prompt text; the rest travel alongside it.
+ */
+export interface OutputField {
+  name: string;
+  // Tells the model what to write in the field
+  description?: string;
+}
+
+export type OutputFieldValues = Record<string, string>;
+
+export const SUGGESTED_OUTPUT_FIELDS: OutputField[] = [
+  { name: "prompt", description: "The positive image prompt" },
+  { name: "negativePrompt", description: "Comma-separated things the image should avoid" },
+  { name: "title", description: "A short title of at most six words" },
+  { name: "altText", description: "One sentence of alt text describing the image" },
+];
+
+// Name sent to providers for the schema / tool
+export const OUTPUT_SCHEMA_NAME = "prompt_fields";
+
+export class StructuredOutputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StructuredOutputError";
+  }
+}
+
+/**
+ * Fields with trimmed, non-empty names; later duplicates (case-insensitive) are dropped.
+ */
+export function normalizeOutputFields(fields: OutputField[] | undefined): OutputField[] {
+  const seen = new Set<string>();
+  return (fields || [])
+    .map((field) => ({ ...field, name: (field?.name || "").trim() }))
+    .filter((field) => {
+      const key = field.name.toLowerCase();
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * JSON schema for the fields: an object with every field as a required string.
+ */
+export function outputJsonSchema(fields: OutputField[]): Record<string, unknown> {
+  const normalized = normalizeOutputFields(fields);
+  return {
+    type: "object",
+    properties: Object.fromEntries(
+      normalized.map((field) => [field.name, field.description?.trim() ? { type: "string", description: field.description.trim() } : { type: "string" }])
+    ),
+    required: normalized.map((field) => field.name),
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Reply format for the system message, for servers that only take a bare JSON mode.
+ */
+export function describeOutputFields(fields: OutputField[]): string {
+  const lines = normalizeOutputFields(fields).map((field) => `- ${field.name}${field.description?.trim() ? `: ${field.description.trim()}` : ""}`);
+  return `Reply with a single JSON object and nothing else. It has these string fields:\n${lines.join("\n")}\nThe cinematic paragraph goes in "${normalizeOutputFields(fields)[0]?.name}".`;
+}
+
+/**
+ * Parse and validate a structured reply. Code fences around the JSON are tolerated;
+ * anything else that isn't an object with every field as a string throws StructuredOutputError.
+ */
+export function parseStructuredOutput(text: string, fields: OutputField[]): OutputFieldValues {
+  const json = text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/i, "$1");
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new StructuredOutputError(`Reply is not valid JSON: ${text.trim().slice(0, 80) || "(empty)"}`);
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new StructuredOutputError("Reply is not a JSON object");
+  }
+
+  const values: OutputFieldValues = {};
+  const problems: string[] = [];
+  normalizeOutputFields(fields).forEach(({ name }) => {
+    const value = (data as Record<string, unknown>)[name];
+    if (typeof value === "string") values[name] = value.trim();
+    else if (value === undefined || value === null) problems.push(`"${name}" is missing`);
+    else problems.push(`"${name}" is not a string`);
+  });
+  if (problems.length) throw new StructuredOutputError(`Reply does not match the output fields: ${problems.join(", ")}`);
+  return values;
+}
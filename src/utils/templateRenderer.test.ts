@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { renderTemplate, templateFields } from "./templateRenderer";
+
+const template =
+  "A cinematic {{Composition}} of {{Pre}} in {{Environment}} at {{Time of Day}}.[[ {{Weather}} skies.]] Shot on a {{Lens}}, with {{Post}}";
+
+describe("renderTemplate", () => {
+  it("fills fields case-insensitively and joins multi-value fields", () => {
+    const text = renderTemplate("{{pre}} with {{Props}}", { Pre: "HWS14", Props: ["a kite", "a map"] });
+    expect(text).toBe("HWS14 with a kite, a map");
+  });
+
+  it("drops optional fragments whose fields are missing", () => {
+    const payload = {
+      Composition: "wide shot",
+      Pre: "HWS14",
+      Environment: "a meadow",
+      "Time of Day": "dusk",
+      Lens: "35mm f/1.4",
+      Post: "film grain",
+    };
+    expect(renderTemplate(template, payload)).toBe(
+      "A cinematic wide shot of HWS14 in a meadow at dusk. Shot on a 35mm f/1.4, with film grain"
+    );
+    expect(renderTemplate(template, { ...payload, Weather: "Stormy" })).toContain("at dusk. Stormy skies. Shot on");
+  });
+
+  it("supports conditionals with else branches", () => {
+    const t = "{{#if Weather}}in {{Weather}} weather{{else}}under clear skies{{/if}}";
+    expect(renderTemplate(t, { Weather: "foggy" })).toBe("in foggy weather");
+    expect(renderTemplate(t, {})).toBe("under clear skies");
+  });
+
+  it("tidies gaps left by missing required fields", () => {
+    expect(renderTemplate("{{A}}, {{B}} and {{C}} .", { A: "one", C: "three" })).toBe("one, and three.");
+  });
+
+  it("lists the fields a template uses", () => {
+    expect(templateFields(template)).toContain("Time of Day");
+    expect(templateFields("{{#if A}}{{B}}{{else}}x{{/if}}")).toEqual(["B"]);
+  });
+});
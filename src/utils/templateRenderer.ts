@@ -0,0 +1,71 @@
+// src/utils/templateRenderer.ts
+import type { Payload, PayloadValue } from "./payloadBuilder";
+
+/**
+ * Local output templates, filled from a payload without calling an LLM:
+ * - `{{Field}}` inserts a payload field (multi-value fields are comma-joined)
+ * - `[[ ... ]]` is an optional fragment, dropped unless every field inside it is present
+ * - `{{#if Field}} ... {{else}} ... {{/if}}` picks a branch on whether a field is present
+ * Field names match section titles case-insensitively.
+ */
+
+const FIELD = /\{\{\s*([^#/{}][^{}]*?)\s*\}\}/g;
+// Innermost conditional / optional fragment first, so they can nest
+const CONDITIONAL = /\{\{#if\s+([^{}]+?)\s*\}\}((?:(?!\{\{#if)[\s\S])*?)\{\{\/if\}\}/;
+const OPTIONAL = /\[\[((?:(?!\[\[)[\s\S])*?)\]\]/;
+
+function formatValue(value: PayloadValue | undefined) {
+  if (value === undefined) return "";
+  return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+function lookup(payload: Payload, name: string): string {
+  const key = name.trim().toLowerCase();
+  const match = Object.keys(payload).find((k) => k.trim().toLowerCase() === key);
+  return match ? formatValue(payload[match]).trim() : "";
+}
+
+function replaceAll(text: string, pattern: RegExp, fn: (match: RegExpMatchArray) => string) {
+  let out = text;
+  for (let match = out.match(pattern); match; match = out.match(pattern)) {
+    out = out.slice(0, match.index) + fn(match) + out.slice(match.index! + match[0].length);
+  }
+  return out;
+}
+
+/**
+ * Names of the `{{Field}}` placeholders used in a template.
+ */
+export function templateFields(template: string): string[] {
+  const names = Array.from((template || "").matchAll(FIELD), (m) => m[1].trim()).filter((n) => n !== "else");
+  return Array.from(new Set(names));
+}
+
+/**
+ * Replace `{{Field}}` placeholders only, leaving the text otherwise untouched.
+ */
+export function fillFields(template: string, payload: Payload): string {
+  return (template || "").replace(FIELD, (_, field: string) => lookup(payload, field));
+}
+
+export function renderTemplate(template: string, payload: Payload): string {
+  let out = template || "";
+
+  out = replaceAll(out, CONDITIONAL, ([, field, body]) => {
+    const [then, otherwise = ""] = body.split("{{else}}");
+    return lookup(payload, field) ? then : otherwise;
+  });
+
+  out = replaceAll(out, OPTIONAL, ([, body]) =>
+    templateFields(body).every((field) => lookup(payload, field)) ? body : ""
+  );
+
+  out = out.replace(FIELD, (_, field: string) => lookup(payload, field));
+
+  // Tidy the gaps left by missing fields
+  return out
+    .replace(/[ \t]{2,}/g, " ")
+    .replace(/[ \t]+([,.;:!?])/g, "$1")
+    .replace(/,(\s*[,.])/g, "$1")
+    .trim();
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { collapseUnchanged, diffLines } from "./textDiff";
+
+describe("diffLines", () => {
+  it("marks added and removed lines around common ones", () => {
+    expect(diffLines("a\nb\nc", "a\nc\nd")).toEqual([
+      { type: "same", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "same", text: "c" },
+      { type: "added", text: "d" },
+    ]);
+    expect(diffLines("", "x")).toEqual([{ type: "added", text: "x" }]);
+  });
+
+  it("collapses unchanged runs outside the context", () => {
+    const lines = diffLines("1\n2\n3\n4\n5\n6\n7", "1\n2\n3\n4\n5\n6\nseven");
+    expect(collapseUnchanged(lines, 1)).toEqual([
+      null,
+      { type: "same", text: "6" },
+      { type: "removed", text: "7" },
+      { type: "added", text: "seven" },
+    ]);
+  });
+});
@@ -0,0 +1,61 @@
+// src/utils/textDiff.ts
+
+export type DiffLineType = "same" | "added" | "removed";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+/**
+ * Line diff of `before` → `after` using the longest common subsequence of lines.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+  return lines;
+}
+
+/**
+ * Keep changed lines plus `context` unchanged lines around them; longer unchanged runs
+ * collapse into a single `null` marker.
+ */
+export function collapseUnchanged(lines: DiffLine[], context = 2): (DiffLine | null)[] {
+  const near = lines.map((_, index) =>
+    lines.slice(Math.max(0, index - context), index + context + 1).some((line) => line.type !== "same")
+  );
+  const out: (DiffLine | null)[] = [];
+  lines.forEach((line, index) => {
+    if (near[index]) {
+      out.push(line);
+    } else if (out[out.length - 1] !== null) {
+      out.push(null);
+    }
+  });
+  return out;
+}